@@ -0,0 +1,12 @@
+import type { AuthConfig } from "convex/server";
+
+// Lets Convex validate Firebase ID tokens itself, so that the functions
+// exposed via exposeApi can identify the caller.
+export default {
+  providers: [
+    {
+      domain: `https://securetoken.google.com/${process.env.FIREBASE_PROJECT_ID}`,
+      applicationID: process.env.FIREBASE_PROJECT_ID!,
+    },
+  ],
+} satisfies AuthConfig;
@@ -13,9 +13,11 @@ describe("example", () => {
 
   test("getUser returns null for nonexistent firebase uid", async () => {
     const t = initConvexTest();
-    const user = await t.query(api.example.getUser, {
-      firebaseUid: "nonexistent-uid",
-    });
+    const user = await t
+      .withIdentity({ subject: "nonexistent-uid" })
+      .query(api.example.getUser, {
+        firebaseUid: "nonexistent-uid",
+      });
     expect(user).toBeNull();
   });
 });
@@ -6,7 +6,9 @@ const http = httpRouter();
 
 // Register Firebase Auth HTTP routes
 // POST /auth/verify - Verify a Firebase ID token
-// GET /auth/user?firebaseUid=... - Get user data by Firebase UID
+// GET /auth/session - Verify the Firebase session cookie (__session)
+// GET /auth/user - Get the caller's user (others need authorizeAdmin)
+// GET /auth/users - List, search and look up users (needs authorizeAdmin)
 registerRoutes(http, components.convexFirebaseAuth, {
   pathPrefix: "/auth",
 });
@@ -257,7 +257,9 @@ function App() {
           <p>Loading...</p>
         ) : error ? (
           <div>
-            <p style={{ color: "red" }}>Error: {error.message}</p>
+            <p style={{ color: "red" }}>
+              Error: {error.message} ({error.code})
+            </p>
             <AuthForms />
           </div>
         ) : isAuthenticated ? (
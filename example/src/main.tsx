@@ -1,9 +1,12 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ConvexProviderWithAuth, ConvexReactClient } from "convex/react";
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { FirebaseAuthProvider } from "@panarastudios/convex-firebase-auth/react";
+import {
+  FirebaseAuthProvider,
+  useAuthFromFirebase,
+} from "@panarastudios/convex-firebase-auth/react";
 import { api } from "../convex/_generated/api";
 import App from "./App.jsx";
 import "./index.css";
@@ -21,9 +24,15 @@ const auth = getAuth(firebaseApp);
 // Initialize Convex
 const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL);
 
+// Forward the Firebase ID token to Convex so exposed functions can tell who
+// is calling them (see convex/auth.config.ts).
+function useAuth() {
+  return useAuthFromFirebase(auth);
+}
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <ConvexProvider client={convex}>
+    <ConvexProviderWithAuth client={convex} useAuth={useAuth}>
       <FirebaseAuthProvider
         auth={auth}
         verifyToken={api.example.verifyToken}
@@ -31,6 +40,6 @@ createRoot(document.getElementById("root")!).render(
       >
         <App />
       </FirebaseAuthProvider>
-    </ConvexProvider>
+    </ConvexProviderWithAuth>
   </StrictMode>,
 );
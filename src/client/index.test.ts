@@ -1,17 +1,274 @@
-import { describe, expect, test } from "vitest";
-import { exposeApi } from "./index.js";
-import { anyApi, type ApiFromModules } from "convex/server";
+import { describe, expect, test, vi } from "vitest";
+import {
+  authedAction,
+  authedMutation,
+  authedQuery,
+  exposeApi,
+  getRequestDevice,
+  getSessionCookie,
+  hasClaim,
+  registerRoutes,
+  requirePermission,
+  requireRole,
+} from "./index.js";
+import {
+  anyApi,
+  defineSchema,
+  defineTable,
+  httpRouter,
+  mutationGeneric,
+  queryGeneric,
+  type ApiFromModules,
+} from "convex/server";
+import { v } from "convex/values";
 import { components, initConvexTest } from "./setup.test.js";
+import {
+  createEmulatorToken,
+  createTestSigner,
+  stubJwksFetch,
+  validClaims,
+} from "../component/setup.test.js";
 
-export const { getUser, getUserById } = exposeApi(
+export const { getUser, getUserById, signOut, deleteUser } = exposeApi(
   components.convexFirebaseAuth,
 );
 
+export const {
+  deleteUser: adminDeleteUser,
+  disableUser,
+  enableUser,
+  listUsers,
+  getUserByEmail,
+} = exposeApi(components.convexFirebaseAuth, {
+  authorize: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    return identity?.subject === "admin-uid";
+  },
+  authorizeAdmin: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    return identity?.subject === "admin-uid";
+  },
+});
+
+export const { getUser: tenantGetUser } = exposeApi(
+  components.convexFirebaseAuth,
+  { tenantId: "tenant-a" },
+);
+
+export const { disableUser: unguardedDisableUser } = exposeApi(
+  components.convexFirebaseAuth,
+);
+
+export const { verifyToken: emulatorVerifyToken } = exposeApi(
+  components.convexFirebaseAuth,
+  {
+    firebaseProjectId: "my-project",
+    emulatorHost: "127.0.0.1:9099",
+    rolesClaim: "roles",
+  },
+);
+
+export const { verifyToken: multiProjectVerifyToken } = exposeApi(
+  components.convexFirebaseAuth,
+  {
+    firebaseProjectId: ["project-a", "project-b"],
+    emulatorHost: "127.0.0.1:9099",
+  },
+);
+
+export const { verifyToken: hookedVerifyToken } = exposeApi(
+  components.convexFirebaseAuth,
+  {
+    firebaseProjectId: "my-project",
+    emulatorHost: "127.0.0.1:9099",
+    hooks: {
+      onAnonymousUpgraded: anyApi["index.test"].recordAnonymousUpgraded,
+      onAnonymousMerged: anyApi["index.test"].recordAnonymousMerged,
+    },
+  },
+);
+
+export const recordAnonymousUpgraded = mutationGeneric({
+  args: { firebaseUid: v.string(), tenantId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("hookCalls", { hook: "upgraded", args });
+  },
+});
+
+export const recordAnonymousMerged = mutationGeneric({
+  args: {
+    fromUid: v.string(),
+    toUid: v.string(),
+    tenantId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("hookCalls", { hook: "merged", args });
+  },
+});
+
+export const {
+  verifyToken: lifecycleVerifyToken,
+  disableUser: lifecycleDisableUser,
+  deleteUser: lifecycleDeleteUser,
+} = exposeApi(components.convexFirebaseAuth, {
+  firebaseProjectId: "my-project",
+  emulatorHost: "127.0.0.1:9099",
+  authorizeAdmin: () => true,
+  hooks: {
+    onUserCreated: anyApi["index.test"].recordUserCreated,
+    onUserUpdated: anyApi["index.test"].recordUserUpdated,
+    onUserDeleted: anyApi["index.test"].recordUserDeleted,
+    onSignIn: anyApi["index.test"].recordSignIn,
+  },
+});
+
+export const recordUserCreated = mutationGeneric({
+  args: { user: v.any() },
+  handler: async (ctx, { user }) => {
+    await ctx.db.insert("hookCalls", {
+      hook: "created",
+      args: { firebaseUid: user.firebaseUid },
+    });
+  },
+});
+
+export const recordUserUpdated = mutationGeneric({
+  args: { user: v.any(), changes: v.any() },
+  handler: async (ctx, { changes }) => {
+    await ctx.db.insert("hookCalls", { hook: "updated", args: changes });
+  },
+});
+
+export const recordUserDeleted = mutationGeneric({
+  args: { user: v.any() },
+  handler: async (ctx, { user }) => {
+    await ctx.db.insert("hookCalls", {
+      hook: "deleted",
+      args: { firebaseUid: user.firebaseUid, email: user.email },
+    });
+  },
+});
+
+export const recordSignIn = mutationGeneric({
+  args: { user: v.any(), sessionId: v.string() },
+  handler: async (ctx, { user }) => {
+    await ctx.db.insert("hookCalls", {
+      hook: "signIn",
+      args: { firebaseUid: user.firebaseUid },
+    });
+  },
+});
+
+export const listHookCalls = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const calls = await ctx.db.query("hookCalls").collect();
+    return calls.map(({ hook, args }) => ({ hook, args }));
+  },
+});
+
+const hookSchema = defineSchema({
+  hookCalls: defineTable({ hook: v.string(), args: v.any() }),
+});
+
+export const defineEditorRole = mutationGeneric({
+  args: {},
+  handler: async (ctx) => {
+    await ctx.runMutation(components.convexFirebaseAuth.lib.defineRole, {
+      name: "editor",
+      permissions: ["articles:edit"],
+    });
+  },
+});
+
+export const editArticle = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const { roles } = await requirePermission(
+      ctx,
+      components.convexFirebaseAuth,
+      "articles:edit",
+    );
+    return roles;
+  },
+});
+
+export const whoAmI = authedQuery(components.convexFirebaseAuth)({
+  args: {},
+  handler: async (ctx) => ctx.user.firebaseUid,
+});
+
+export const verifiedWhoAmI = authedQuery(components.convexFirebaseAuth, {
+  requireEmailVerified: true,
+  allowAnonymous: true,
+})({
+  args: {},
+  handler: async (ctx) => ctx.user.firebaseUid,
+});
+
+export const echoEmail = authedMutation(components.convexFirebaseAuth)({
+  args: { suffix: v.string() },
+  handler: async (ctx, args) => `${ctx.user.email}${args.suffix}`,
+});
+
+export const claimsInAction = authedAction(components.convexFirebaseAuth)({
+  args: {},
+  handler: async (ctx) => ctx.user.customClaims,
+});
+
+export const adminOnly = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, components.convexFirebaseAuth, "admin");
+  },
+});
+
+const http = httpRouter();
+registerRoutes(http, components.convexFirebaseAuth, {
+  firebaseProjectId: "my-project",
+  emulatorHost: "127.0.0.1:9099",
+  checkRevoked: true,
+  authorizeAdmin: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    return identity?.subject === "admin-uid";
+  },
+});
+registerRoutes(http, components.convexFirebaseAuth, {
+  pathPrefix: "/app-check",
+  firebaseProjectId: "my-project",
+  emulatorHost: "127.0.0.1:9099",
+  requireAppCheck: true,
+  firebaseProjectNumber: "123456789",
+});
+
 const testApi = (
   anyApi as unknown as ApiFromModules<{
     "index.test": {
       getUser: typeof getUser;
       getUserById: typeof getUserById;
+      tenantGetUser: typeof tenantGetUser;
+      signOut: typeof signOut;
+      deleteUser: typeof deleteUser;
+      adminDeleteUser: typeof adminDeleteUser;
+      listUsers: typeof listUsers;
+      getUserByEmail: typeof getUserByEmail;
+      disableUser: typeof disableUser;
+      enableUser: typeof enableUser;
+      unguardedDisableUser: typeof unguardedDisableUser;
+      emulatorVerifyToken: typeof emulatorVerifyToken;
+      multiProjectVerifyToken: typeof multiProjectVerifyToken;
+      hookedVerifyToken: typeof hookedVerifyToken;
+      listHookCalls: typeof listHookCalls;
+      lifecycleVerifyToken: typeof lifecycleVerifyToken;
+      lifecycleDisableUser: typeof lifecycleDisableUser;
+      lifecycleDeleteUser: typeof lifecycleDeleteUser;
+      defineEditorRole: typeof defineEditorRole;
+      editArticle: typeof editArticle;
+      adminOnly: typeof adminOnly;
+      whoAmI: typeof whoAmI;
+      verifiedWhoAmI: typeof verifiedWhoAmI;
+      echoEmail: typeof echoEmail;
+      claimsInAction: typeof claimsInAction;
     };
   }>
 )["index.test"];
@@ -19,9 +276,640 @@ const testApi = (
 describe("client tests", () => {
   test("getUser returns null for nonexistent uid", async () => {
     const t = initConvexTest();
-    const user = await t.query(testApi.getUser, {
-      firebaseUid: "nonexistent",
-    });
+    const user = await t
+      .withIdentity({ subject: "nonexistent" })
+      .query(testApi.getUser, {
+        firebaseUid: "nonexistent",
+      });
+    expect(user).toBeNull();
+  });
+
+  test("getUser defaults to the caller's uid", async () => {
+    const t = initConvexTest();
+    const user = await t
+      .withIdentity({ subject: "caller-uid" })
+      .query(testApi.getUser, {});
     expect(user).toBeNull();
   });
+
+  test("unauthenticated callers are rejected", async () => {
+    const t = initConvexTest();
+    await expect(t.query(testApi.getUser, {})).rejects.toThrow(
+      "auth/unauthorized",
+    );
+    await expect(
+      t.mutation(testApi.signOut, { firebaseUid: "victim-uid" }),
+    ).rejects.toThrow("auth/unauthorized");
+  });
+
+  test("callers cannot act on other users by default", async () => {
+    const t = initConvexTest().withIdentity({ subject: "caller-uid" });
+    await expect(
+      t.query(testApi.getUser, { firebaseUid: "victim-uid" }),
+    ).rejects.toThrow("auth/unauthorized");
+    await expect(
+      t.mutation(testApi.signOut, { firebaseUid: "victim-uid" }),
+    ).rejects.toThrow("auth/unauthorized");
+    await expect(
+      t.mutation(testApi.deleteUser, { firebaseUid: "victim-uid" }),
+    ).rejects.toThrow("auth/unauthorized");
+  });
+
+  test("callers can act on their own user", async () => {
+    const t = initConvexTest().withIdentity({ subject: "caller-uid" });
+    await t.mutation(testApi.signOut, {});
+    await t.mutation(testApi.deleteUser, { firebaseUid: "caller-uid" });
+  });
+
+  test("authorize callback can allow acting on other users", async () => {
+    const t = initConvexTest();
+    await expect(
+      t
+        .withIdentity({ subject: "caller-uid" })
+        .mutation(testApi.adminDeleteUser, { firebaseUid: "victim-uid" }),
+    ).rejects.toThrow("auth/unauthorized");
+    await t
+      .withIdentity({ subject: "admin-uid" })
+      .mutation(testApi.adminDeleteUser, { firebaseUid: "victim-uid" });
+  });
+
+  test("disabling and enabling users requires authorizeAdmin", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(validClaims("my-project")),
+    });
+
+    const user = t.withIdentity({ subject: "user-123" });
+    await expect(
+      user.mutation(testApi.unguardedDisableUser, { firebaseUid: "user-123" }),
+    ).rejects.toThrow("auth/unauthorized");
+    await expect(
+      user.mutation(testApi.enableUser, { firebaseUid: "user-123" }),
+    ).rejects.toThrow("auth/unauthorized");
+
+    const admin = t.withIdentity({ subject: "admin-uid" });
+    await admin.mutation(testApi.disableUser, { firebaseUid: "user-123" });
+    await expect(user.query(testApi.getUser, {})).resolves.toMatchObject({
+      disabled: true,
+    });
+    await admin.mutation(testApi.enableUser, { firebaseUid: "user-123" });
+    await expect(user.query(testApi.getUser, {})).resolves.toMatchObject({
+      disabled: false,
+    });
+  });
+
+  test("listing and looking up users requires authorizeAdmin", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { email: "user@example.com", plan: "pro" }),
+      ),
+    });
+    const paginationOpts = { numItems: 10, cursor: null };
+
+    await expect(
+      t
+        .withIdentity({ subject: "user-123" })
+        .query(testApi.listUsers, { paginationOpts }),
+    ).rejects.toThrow("Not authorized to listUsers");
+
+    const admin = t.withIdentity({ subject: "admin-uid" });
+    const { page } = await admin.query(testApi.listUsers, {
+      paginationOpts,
+      isAnonymous: false,
+    });
+    expect(page.map((user) => user.firebaseUid)).toEqual(["user-123"]);
+    expect(page[0].customClaims).toEqual({ plan: "pro" });
+    const user = await admin.query(testApi.getUserByEmail, {
+      email: "user@example.com",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+  });
+
+  test("getUser returns the custom claims of the last token parsed", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { role: "editor", premium: true }),
+      ),
+    });
+    const user = await t
+      .withIdentity({ subject: "user-123" })
+      .query(testApi.getUser, {});
+    expect(user!.customClaims).toEqual({ role: "editor", premium: true });
+  });
+
+  test("requirePermission and requireRole check the caller's roles", async () => {
+    const t = initConvexTest();
+    await t.mutation(testApi.defineEditorRole, {});
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { roles: ["editor"] }),
+      ),
+    });
+
+    const caller = t.withIdentity({ subject: "user-123" });
+    expect(await caller.query(testApi.editArticle, {})).toEqual(["editor"]);
+    await expect(caller.query(testApi.adminOnly, {})).rejects.toThrow(
+      "auth/role-required",
+    );
+    await expect(
+      t.withIdentity({ subject: "user-456" }).query(testApi.editArticle, {}),
+    ).rejects.toThrow("auth/permission-required");
+    await expect(t.query(testApi.editArticle, {})).rejects.toThrow(
+      "auth/unauthorized",
+    );
+  });
+
+  test("authed functions inject the caller's user", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", {
+          email: "user@example.com",
+          email_verified: true,
+          plan: "pro",
+        }),
+      ),
+    });
+
+    const caller = t.withIdentity({ subject: "user-123" });
+    expect(await caller.query(testApi.whoAmI, {})).toBe("user-123");
+    expect(await caller.query(testApi.verifiedWhoAmI, {})).toBe("user-123");
+    expect(await caller.mutation(testApi.echoEmail, { suffix: "!" })).toBe(
+      "user@example.com!",
+    );
+    expect(await caller.action(testApi.claimsInAction, {})).toEqual({
+      plan: "pro",
+    });
+  });
+
+  test("authed functions reject unknown, anonymous and unverified users", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", {
+          sub: "anonymous-uid",
+          firebase: { sign_in_provider: "anonymous" },
+        }),
+      ),
+    });
+
+    await expect(t.query(testApi.whoAmI, {})).rejects.toThrow(
+      "auth/unauthorized",
+    );
+    await expect(
+      t.withIdentity({ subject: "unknown-uid" }).query(testApi.whoAmI, {}),
+    ).rejects.toThrow("auth/user-not-found");
+    const anonymous = t.withIdentity({ subject: "anonymous-uid" });
+    await expect(anonymous.query(testApi.whoAmI, {})).rejects.toThrow(
+      "auth/sign-in-provider-not-allowed",
+    );
+    await expect(anonymous.query(testApi.verifiedWhoAmI, {})).rejects.toThrow(
+      "auth/email-not-verified",
+    );
+  });
+
+  test("callers are looked up in the project that issued their token", async () => {
+    const t = initConvexTest();
+    for (const projectId of ["project-a", "project-b"]) {
+      await t.action(testApi.multiProjectVerifyToken, {
+        idToken: createEmulatorToken(
+          validClaims(projectId, { email: `user@${projectId}.com` }),
+        ),
+      });
+    }
+
+    const caller = t.withIdentity({
+      subject: "user-123",
+      issuer: "https://securetoken.google.com/project-b",
+    });
+    const user = await caller.query(testApi.getUser, {});
+    expect(user!.projectId).toBe("project-b");
+    expect(await caller.mutation(testApi.echoEmail, { suffix: "" })).toBe(
+      "user@project-b.com",
+    );
+    await expect(
+      t.withIdentity({ subject: "user-123" }).query(testApi.getUser, {}),
+    ).rejects.toThrow("pass projectId");
+  });
+
+  test("callers from another tenant are not treated as the target user", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { firebase: { tenant: "tenant-a" } }),
+      ),
+    });
+    await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(validClaims("my-project")),
+    });
+
+    const tenantCaller = t.withIdentity({
+      subject: "user-123",
+      firebase: { tenant: "tenant-a" },
+    });
+    const user = await tenantCaller.query(testApi.tenantGetUser, {});
+    expect(user!.tenantId).toBe("tenant-a");
+    await expect(tenantCaller.query(testApi.getUser, {})).rejects.toThrow(
+      "auth/unauthorized",
+    );
+    await expect(tenantCaller.query(testApi.whoAmI, {})).rejects.toThrow(
+      "auth/tenant-not-allowed",
+    );
+    await expect(tenantCaller.query(testApi.adminOnly, {})).rejects.toThrow(
+      "auth/tenant-not-allowed",
+    );
+    await expect(
+      t.withIdentity({ subject: "user-123" }).query(testApi.tenantGetUser, {}),
+    ).rejects.toThrow("auth/unauthorized");
+  });
+
+  test("getUserById authorizes the caller before checking the tenant", async () => {
+    const t = initConvexTest();
+    const tenantUser = await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { firebase: { tenant: "tenant-a" } }),
+      ),
+    });
+    const user = await t.action(testApi.emulatorVerifyToken, {
+      idToken: createEmulatorToken(validClaims("my-project")),
+    });
+
+    const caller = t.withIdentity({ subject: "user-123" });
+    expect(
+      (await caller.query(testApi.getUserById, { userId: user!._id }))!
+        .firebaseUid,
+    ).toBe("user-123");
+    expect(
+      await caller.query(testApi.getUserById, { userId: tenantUser!._id }),
+    ).toBeNull();
+    await expect(
+      t
+        .withIdentity({ subject: "user-456" })
+        .query(testApi.getUserById, { userId: tenantUser!._id }),
+    ).rejects.toThrow("auth/unauthorized");
+  });
+
+  test("hasClaim checks presence and exact values", () => {
+    const claims = { role: "editor", teams: ["a", "b"] };
+    expect(hasClaim(claims, "role")).toBe(true);
+    expect(hasClaim(claims, "role", "editor")).toBe(true);
+    expect(hasClaim(claims, "role", "admin")).toBe(false);
+    expect(hasClaim(claims, "teams", ["a", "b"])).toBe(true);
+    expect(hasClaim(claims, "admin")).toBe(false);
+    expect(hasClaim(null, "role")).toBe(false);
+  });
+
+  test("getSessionCookie reads the named cookie", () => {
+    const request = new Request("https://example.com", {
+      headers: { Cookie: "theme=dark; __session=abc.def.ghi; other=1" },
+    });
+    expect(getSessionCookie(request)).toBe("abc.def.ghi");
+    expect(getSessionCookie(request, "theme")).toBe("dark");
+    expect(getSessionCookie(request, "missing")).toBeNull();
+    expect(getSessionCookie(new Request("https://example.com"))).toBeNull();
+  });
+
+  test("getRequestDevice reads the user agent and client IP", () => {
+    const request = new Request("https://example.com", {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36",
+        "X-Forwarded-For": "203.0.113.7, 10.0.0.1",
+      },
+    });
+    expect(getRequestDevice(request)).toMatchObject({
+      ipAddress: "203.0.113.7",
+      deviceLabel: "Chrome on macOS",
+    });
+    const iphone = new Request("https://example.com", {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+        "X-Real-IP": "198.51.100.4",
+      },
+    });
+    expect(getRequestDevice(iphone)).toMatchObject({
+      ipAddress: "198.51.100.4",
+      deviceLabel: "Safari on iOS",
+    });
+    expect(getRequestDevice(new Request("https://example.com"))).toEqual({
+      userAgent: undefined,
+      ipAddress: undefined,
+      deviceLabel: undefined,
+    });
+  });
+
+  test("anonymous upgrades and merges run the hooks", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest(hookSchema);
+    const anonymousToken = (sub: string) =>
+      createEmulatorToken(
+        validClaims("my-project", {
+          sub,
+          firebase: { sign_in_provider: "anonymous" },
+        }),
+      );
+    const passwordToken = (sub: string) =>
+      createEmulatorToken(
+        validClaims("my-project", {
+          sub,
+          firebase: { sign_in_provider: "password" },
+        }),
+      );
+
+    // Linking a credential keeps the uid
+    await t.action(testApi.hookedVerifyToken, {
+      idToken: anonymousToken("anon-1"),
+    });
+    const upgraded = await t.action(testApi.hookedVerifyToken, {
+      idToken: passwordToken("anon-1"),
+    });
+    expect(upgraded!.isAnonymous).toBe(false);
+
+    // Signing in to an existing account switches to its uid
+    await t.action(testApi.hookedVerifyToken, {
+      idToken: passwordToken("user-123"),
+      anonymousIdToken: anonymousToken("anon-2"),
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await t.query(testApi.listHookCalls, {})).toEqual([
+      { hook: "upgraded", args: { firebaseUid: "anon-1" } },
+      { hook: "merged", args: { fromUid: "anon-2", toUid: "user-123" } },
+    ]);
+
+    // Rejected anonymous tokens skip the merge but not the sign-in
+    const nonAnonymous = await t.action(testApi.hookedVerifyToken, {
+      idToken: passwordToken("user-123"),
+      anonymousIdToken: passwordToken("other-uid"),
+    });
+    expect(nonAnonymous!.anonymousIdTokenError).toBe("auth/argument-error");
+    const expired = await t.action(testApi.hookedVerifyToken, {
+      idToken: passwordToken("user-123"),
+      anonymousIdToken: createEmulatorToken(
+        validClaims("my-project", {
+          sub: "anon-3",
+          firebase: { sign_in_provider: "anonymous" },
+          exp: Math.floor(Date.now() / 1000) - 60,
+        }),
+      ),
+    });
+    expect(expired!.firebaseUid).toBe("user-123");
+    expect(expired!.anonymousIdTokenError).toBe("auth/id-token-expired");
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.query(testApi.listHookCalls, {})).toHaveLength(2);
+    vi.useRealTimers();
+  });
+
+  test("user lifecycle changes run the hooks", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest(hookSchema);
+    const user = { firebaseUid: "user-123" };
+
+    await t.action(testApi.lifecycleVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { email: "old@example.com" }),
+      ),
+    });
+    await t.action(testApi.lifecycleVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { email: "new@example.com" }),
+      ),
+    });
+    // Changes that leave the user as it was aren't reported
+    await t.action(testApi.lifecycleVerifyToken, {
+      idToken: createEmulatorToken(
+        validClaims("my-project", { email: "new@example.com", jti: "2" }),
+      ),
+    });
+    await t.mutation(testApi.lifecycleDisableUser, user);
+    await t
+      .withIdentity({ subject: "user-123" })
+      .mutation(testApi.lifecycleDeleteUser, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await t.query(testApi.listHookCalls, {})).toEqual([
+      { hook: "created", args: user },
+      { hook: "signIn", args: user },
+      {
+        hook: "updated",
+        args: {
+          email: { before: "old@example.com", after: "new@example.com" },
+        },
+      },
+      { hook: "signIn", args: user },
+      { hook: "signIn", args: user },
+      { hook: "updated", args: { disabled: { before: null, after: true } } },
+      { hook: "deleted", args: { ...user, email: "new@example.com" } },
+    ]);
+    vi.useRealTimers();
+  });
+});
+
+describe("http routes", () => {
+  const signIn = async (t: ReturnType<typeof initConvexTest>, sub: string) =>
+    await t.fetch("/auth/verify", {
+      method: "POST",
+      body: JSON.stringify({
+        idToken: createEmulatorToken(validClaims("my-project", { sub })),
+      }),
+    });
+
+  test("/user returns the caller's own user", async () => {
+    const t = initConvexTest(undefined, http);
+    expect((await signIn(t, "user-123")).status).toBe(200);
+    await signIn(t, "user-456");
+
+    const caller = t.withIdentity({
+      subject: "user-123",
+      issuer: "https://securetoken.google.com/my-project",
+    });
+    const own = await caller.fetch("/auth/user");
+    expect(own.status).toBe(200);
+    expect((await own.json()).firebaseUid).toBe("user-123");
+
+    const other = await caller.fetch("/auth/user?firebaseUid=user-456");
+    expect(other.status).toBe(403);
+    expect((await other.json()).code).toBe("auth/unauthorized");
+    expect((await t.fetch("/auth/user")).status).toBe(403);
+  });
+
+  test("/user looks up other users when authorizeAdmin allows", async () => {
+    const t = initConvexTest(undefined, http);
+    await signIn(t, "user-456");
+
+    const response = await t
+      .withIdentity({ subject: "admin-uid" })
+      .fetch("/auth/user?firebaseUid=user-456");
+    expect(response.status).toBe(200);
+    expect((await response.json()).firebaseUid).toBe("user-456");
+  });
+
+  test("/verify reports token errors with their HTTP status", async () => {
+    // convex-test leaves a component action that threw on its function stack,
+    // so each failing request needs an instance of its own.
+    const verify = async (
+      body: Record<string, unknown>,
+      t = initConvexTest(undefined, http),
+    ) => {
+      const response = await t.fetch("/auth/verify", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return [response.status, (await response.json()).code];
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(
+      await verify({
+        idToken: createEmulatorToken(
+          validClaims("my-project", { iat: now - 7200, exp: now - 3600 }),
+        ),
+      }),
+    ).toEqual([401, "auth/id-token-expired"]);
+    expect(await verify({ idToken: "not-a-token" })).toEqual([
+      400,
+      "auth/argument-error",
+    ]);
+    expect(await verify({})).toEqual([400, "auth/argument-error"]);
+
+    vi.useFakeTimers();
+    const t = initConvexTest(undefined, http);
+    expect((await signIn(t, "user-123")).status).toBe(200);
+    await t
+      .withIdentity({ subject: "admin-uid" })
+      .mutation(testApi.disableUser, {
+        firebaseUid: "user-123",
+      });
+    // Disabling revokes earlier tokens; sign in again after that
+    vi.advanceTimersByTime(120_000);
+    expect(
+      await verify(
+        { idToken: createEmulatorToken(validClaims("my-project")) },
+        t,
+      ),
+    ).toEqual([403, "auth/user-disabled"]);
+    vi.useRealTimers();
+  });
+
+  test("/verify rejects tokens issued before a revocation", async () => {
+    const t = initConvexTest(undefined, http);
+    expect((await signIn(t, "user-123")).status).toBe(200);
+    await t
+      .withIdentity({
+        subject: "user-123",
+        issuer: "https://securetoken.google.com/my-project",
+      })
+      .mutation(testApi.signOut, {});
+
+    const response = await signIn(t, "user-123");
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe("auth/id-token-revoked");
+  });
+
+  test("/users is only served when authorizeAdmin allows", async () => {
+    const t = initConvexTest(undefined, http);
+    await signIn(t, "user-123");
+    await signIn(t, "user-456");
+
+    const denied = await t
+      .withIdentity({ subject: "user-123" })
+      .fetch("/auth/users");
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).code).toBe("auth/unauthorized");
+    expect((await t.fetch("/auth/users?email=user@example.com")).status).toBe(
+      403,
+    );
+
+    const admin = t.withIdentity({ subject: "admin-uid" });
+    const listed = await admin.fetch("/auth/users?numItems=1");
+    expect(listed.status).toBe(200);
+    const firstPage = await listed.json();
+    expect(
+      firstPage.page.map((user: { firebaseUid: string }) => user.firebaseUid),
+    ).toEqual(["user-123"]);
+    expect(firstPage.isDone).toBe(false);
+    const nextPage = await (
+      await admin.fetch(
+        `/auth/users?numItems=1&cursor=${encodeURIComponent(firstPage.continueCursor)}`,
+      )
+    ).json();
+    expect(
+      nextPage.page.map((user: { firebaseUid: string }) => user.firebaseUid),
+    ).toEqual(["user-456"]);
+
+    const missing = await admin.fetch("/auth/users?email=nobody@example.com");
+    expect(missing.status).toBe(404);
+  });
+
+  test("App Check is required on /verify and /session when enabled", async () => {
+    const signer = await createTestSigner("app-check-kid");
+    // Same kid, different key: the signature doesn't verify
+    const forger = await createTestSigner("app-check-kid");
+    stubJwksFetch(signer.jwks);
+    const claims = (expiresIn: number) => {
+      const now = Math.floor(Date.now() / 1000);
+      return {
+        iss: "https://firebaseappcheck.googleapis.com/123456789",
+        aud: ["projects/123456789", "projects/my-project"],
+        sub: "1:123456789:web:abc",
+        iat: now - 3600,
+        exp: now + expiresIn,
+      };
+    };
+    // convex-test leaves a component action that threw on its function stack,
+    // so every request gets a fresh instance.
+    const verify = (headers: Record<string, string>) =>
+      initConvexTest(undefined, http).fetch("/app-check/verify", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          idToken: createEmulatorToken(validClaims("my-project")),
+        }),
+      });
+    const session = (headers: Record<string, string>) =>
+      initConvexTest(undefined, http).fetch("/app-check/session", {
+        headers: {
+          ...headers,
+          Cookie: `__session=${createEmulatorToken(
+            validClaims(
+              "my-project",
+              {},
+              "https://session.firebase.google.com/",
+            ),
+          )}`,
+        },
+      });
+
+    for (const route of [verify, session]) {
+      const missing = await route({});
+      expect(missing.status).toBe(401);
+      expect((await missing.json()).code).toBe("auth/invalid-app-check-token");
+
+      const expired = await route({
+        "X-Firebase-AppCheck": await signer.sign(claims(-60)),
+      });
+      expect(expired.status).toBe(401);
+      expect((await expired.json()).code).toBe("auth/invalid-app-check-token");
+
+      const forged = await route({
+        "X-Firebase-AppCheck": await forger.sign(claims(3600)),
+      });
+      expect(forged.status).toBe(401);
+      expect((await forged.json()).code).toBe("auth/invalid-app-check-token");
+
+      const malformed = await route({ "X-Firebase-AppCheck": "not-a-token" });
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).code).toBe("auth/argument-error");
+
+      const valid = await route({
+        "X-Firebase-AppCheck": await signer.sign(claims(3600)),
+      });
+      expect(valid.status).toBe(200);
+      expect((await valid.json()).firebaseUid).toBe("user-123");
+    }
+    vi.unstubAllGlobals();
+  });
 });
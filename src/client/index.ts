@@ -1,110 +1,1198 @@
 import {
   actionGeneric,
+  createFunctionHandle,
   httpActionGeneric,
   mutationGeneric,
+  paginationOptsValidator,
   queryGeneric,
 } from "convex/server";
 import type {
+  FunctionReference,
+  FunctionReturnType,
+  FunctionVisibility,
   GenericActionCtx,
   GenericDataModel,
+  GenericMutationCtx,
   GenericQueryCtx,
   HttpRouter,
+  RegisteredAction,
+  RegisteredMutation,
+  RegisteredQuery,
+  UserIdentity,
 } from "convex/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import type {
+  GenericValidator,
+  ObjectType,
+  PropertyValidators,
+} from "convex/values";
 import type { ComponentApi } from "../component/_generated/component.js";
+import type {
+  ClaimsPolicy,
+  FirebaseTokenPayload,
+} from "../component/jwtUtils.js";
+import { parseCustomClaims } from "../component/jwtUtils.js";
+import {
+  FirebaseAuthError,
+  getErrorCode,
+  getErrorMessage,
+  httpStatusForErrorCode,
+} from "../component/errors.js";
+
+export {
+  FirebaseAuthError,
+  getErrorCode,
+  getErrorMessage,
+  httpStatusForErrorCode,
+} from "../component/errors.js";
+export type {
+  FirebaseAuthErrorCode,
+  FirebaseAuthErrorData,
+} from "../component/errors.js";
+export type {
+  ClaimsPolicy,
+  FirebaseTokenPayload,
+} from "../component/jwtUtils.js";
 
 // ─── Helper Functions ──────────────────────────────────────────────────────
 
-export function verifyToken(
+/** Options for talking to the Firebase Auth Emulator instead of Google. */
+export type EmulatorOptions = {
+  /**
+   * Host and port of the Firebase Auth Emulator, e.g. `127.0.0.1:9099`.
+   * Defaults to the `FIREBASE_AUTH_EMULATOR_HOST` environment variable.
+   * Tokens are then accepted unsigned and REST calls go to the emulator.
+   */
+  emulatorHost?: string;
+};
+
+/** Options for projects that use Identity Platform multi-tenancy. */
+export type TenantOptions = {
+  /**
+   * The Identity Platform tenant the user belongs to. Firebase UIDs are only
+   * unique within a tenant; leave unset for users outside any tenant.
+   */
+  tenantId?: string;
+};
+
+/** Credentials of a Google service account of the Firebase project. */
+export type ServiceAccountOptions = {
+  /**
+   * The service account's `client_email` and PEM `private_key`. Default to
+   * the `FIREBASE_CLIENT_EMAIL` and `FIREBASE_PRIVATE_KEY` environment
+   * variables; escaped `\n` sequences in the key are accepted.
+   */
+  serviceAccount?: { clientEmail: string; privateKey: string };
+};
+
+/** Options of the admin helpers, which act on any user of the project. */
+export type AdminOptions = ServiceAccountOptions &
+  TenantOptions &
+  EmulatorOptions & {
+    /**
+     * The project the user belongs to. Defaults to the first project listed
+     * in `FIREBASE_PROJECT_ID`.
+     */
+    firebaseProjectId?: string;
+    /** Endpoint the service account's OAuth2 access tokens are fetched from. */
+    oauthTokenUrl?: string;
+    /** Mutations of your app to run when stored users change. */
+    hooks?: UserHooks;
+  };
+
+/** Options shared by everything that verifies tokens or session cookies. */
+export type VerifyOptions = EmulatorOptions & {
+  /**
+   * Reject tokens authenticated before the user's tokens were revoked, e.g.
+   * by signing out everywhere or calling `revokeRefreshTokens`.
+   */
+  checkRevoked?: boolean;
+  /**
+   * Extra requirements on the token's claims, e.g. a clock-skew allowance or
+   * a verified email. Tokens that don't meet them are rejected.
+   */
+  policy?: ClaimsPolicy;
+};
+
+/** Options of everything that records a sign-in for a verified token. */
+export type SignInOptions = VerifyOptions & {
+  /**
+   * Custom claim listing the user's role names, e.g. `roles`. Its roles are
+   * mirrored onto the user on every sign-in; granted roles are kept.
+   */
+  rolesClaim?: string;
+  /** Mutations of your app to run when users' accounts change. */
+  hooks?: UserHooks;
+};
+
+/** The device a session is opened on, shown when listing sessions. */
+export type SessionDevice = {
+  userAgent?: string;
+  ipAddress?: string;
+  /** A readable name, e.g. `Chrome on macOS` or one the user chose. */
+  deviceLabel?: string;
+};
+
+/**
+ * Mutations of your app the component schedules when users' accounts change.
+ * They are scheduled in the transaction that makes the change, so they run
+ * exactly when it is committed, e.g. to keep a `profiles` table in sync or to
+ * move carts and drafts to an anonymous user's permanent account.
+ */
+export type UserHooks = {
+  /** A user was stored for the first time. */
+  onUserCreated?: HookReference<{ user: HookUser }>;
+  /**
+   * Fields of a stored user changed, e.g. on sign-in, `disableUser` or an
+   * admin update. `changes` maps each changed field to its `before` and
+   * `after` values; missing values are null.
+   */
+  onUserUpdated?: HookReference<{
+    user: HookUser;
+    changes: Record<string, { before: unknown; after: unknown }>;
+  }>;
+  /** A stored user was deleted; `user` is their last stored state. */
+  onUserDeleted?: HookReference<{ user: HookUser }>;
+  /** A verified token or session cookie opened a new session. */
+  onSignIn?: HookReference<{ user: HookUser; sessionId: string }>;
+  /** An anonymous user linked a credential, keeping their uid. */
+  onAnonymousUpgraded?: HookReference<{
+    firebaseUid: string;
+    tenantId?: string;
+  }>;
+  /**
+   * An anonymous user signed in to a different, existing account. Only
+   * detected when the anonymous user's ID token is passed as
+   * `anonymousIdToken`; runs again if the same token is passed again.
+   */
+  onAnonymousMerged?: HookReference<{
+    fromUid: string;
+    toUid: string;
+    tenantId?: string;
+  }>;
+};
+
+/** A user as stored by the component, as passed to `UserHooks`. */
+export type HookUser = NonNullable<
+  FunctionReturnType<ComponentApi["lib"]["getUserByFirebaseUid"]>
+>;
+
+type HookReference<Args extends Record<string, unknown>> = FunctionReference<
+  "mutation",
+  FunctionVisibility,
+  Args
+>;
+
+export async function verifyToken(
   ctx: ActionCtx,
   component: ComponentApi,
   idToken: string,
+  options?: SignInOptions & {
+    /**
+     * ID token of the anonymous user who signed in with this account, taken
+     * before signing in. Triggers the `onAnonymousMerged` hook. If the token
+     * is rejected, e.g. because it expired, the sign-in still succeeds and
+     * the user returned carries the error code as `anonymousIdTokenError`.
+     */
+    anonymousIdToken?: string;
+    /** Recorded on the session the token opens. */
+    device?: SessionDevice;
+  },
 ) {
-  const firebaseProjectId = getEnvVar("FIREBASE_PROJECT_ID");
-  return ctx.runAction(component.lib.verifyToken, {
+  const firebaseProjectId = getProjectIds(undefined);
+  return await ctx.runAction(component.lib.verifyToken, {
     idToken,
     firebaseProjectId,
+    checkRevoked: options?.checkRevoked,
+    emulatorHost: getEmulatorHost(options?.emulatorHost),
+    policy: options?.policy,
+    rolesClaim: options?.rolesClaim,
+    hooks: await getHookHandles(options?.hooks),
+    anonymousIdToken: options?.anonymousIdToken,
+    device: options?.device,
   });
 }
 
+/**
+ * Verifies an ID token and returns its decoded claims, without creating a
+ * user or session. Use it to authenticate requests on hot paths.
+ */
+export async function decodeAndVerifyIdToken(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  idToken: string,
+  options?: VerifyOptions,
+): Promise<FirebaseTokenPayload> {
+  const firebaseProjectId = getProjectIds(undefined);
+  const { claims, ...payload } = await ctx.runAction(
+    component.lib.decodeAndVerifyIdToken,
+    {
+      idToken,
+      firebaseProjectId,
+      checkRevoked: options?.checkRevoked,
+      emulatorHost: getEmulatorHost(options?.emulatorHost),
+      policy: options?.policy,
+    },
+  );
+  return { ...claims, ...payload };
+}
+
+export async function verifySessionCookie(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  sessionCookie: string,
+  options?: SignInOptions & {
+    /** Recorded on the session the cookie opens. */
+    device?: SessionDevice;
+  },
+) {
+  const firebaseProjectId = getProjectIds(undefined);
+  return await ctx.runAction(component.lib.verifySessionCookie, {
+    sessionCookie,
+    firebaseProjectId,
+    checkRevoked: options?.checkRevoked,
+    emulatorHost: getEmulatorHost(options?.emulatorHost),
+    policy: options?.policy,
+    rolesClaim: options?.rolesClaim,
+    hooks: await getHookHandles(options?.hooks),
+    device: options?.device,
+  });
+}
+
+/**
+ * Verifies a Firebase App Check token and returns the ID of the app it
+ * attests. The project number defaults to `FIREBASE_PROJECT_NUMBER`.
+ */
+export function verifyAppCheckToken(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  appCheckToken: string,
+  options?: { firebaseProjectNumber?: string },
+) {
+  return ctx.runAction(component.lib.verifyAppCheckToken, {
+    appCheckToken,
+    firebaseProjectNumber:
+      options?.firebaseProjectNumber ?? getEnvVar("FIREBASE_PROJECT_NUMBER"),
+  });
+}
+
+/**
+ * Reads a Firebase session cookie from the request's `Cookie` header.
+ * Defaults to `__session`, the only cookie Firebase Hosting forwards.
+ */
+export function getSessionCookie(
+  request: Request,
+  cookieName: string = "__session",
+): string | null {
+  const header = request.headers.get("Cookie");
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === cookieName) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the device a request comes from: its user agent, the client IP
+ * reported by the `X-Forwarded-For` or `X-Real-IP` header, and a label such
+ * as `Chrome on macOS` derived from the user agent.
+ */
+export function getRequestDevice(request: Request): SessionDevice {
+  const userAgent = request.headers.get("User-Agent") ?? undefined;
+  const forwardedFor = request.headers.get("X-Forwarded-For");
+  return {
+    userAgent,
+    ipAddress:
+      forwardedFor?.split(",")[0].trim() ||
+      request.headers.get("X-Real-IP") ||
+      undefined,
+    deviceLabel: userAgent ? describeUserAgent(userAgent) : undefined,
+  };
+}
+
+// Checked in order, since user agents also name the engines they imitate
+const BROWSER_TOKENS = [
+  ["Edg/", "Edge"],
+  ["OPR/", "Opera"],
+  ["Firefox/", "Firefox"],
+  ["Chrome/", "Chrome"],
+  ["Safari/", "Safari"],
+] as const;
+const OS_TOKENS = [
+  ["iPhone", "iOS"],
+  ["iPad", "iPadOS"],
+  ["Android", "Android"],
+  ["CrOS", "ChromeOS"],
+  ["Mac OS X", "macOS"],
+  ["Windows", "Windows"],
+  ["Linux", "Linux"],
+] as const;
+
+function describeUserAgent(userAgent: string): string | undefined {
+  const browser = BROWSER_TOKENS.find(([token]) => userAgent.includes(token));
+  const os = OS_TOKENS.find(([token]) => userAgent.includes(token));
+  if (browser && os) return `${browser[1]} on ${os[1]}`;
+  return browser?.[1] ?? os?.[1];
+}
+
 export function getUser(
   ctx: QueryCtx,
   component: ComponentApi,
   firebaseUid: string,
+  options?: TenantOptions & {
+    /** The project the user signed in to, when several are trusted. */
+    projectId?: string;
+  },
 ) {
-  return ctx.runQuery(component.lib.getUserByFirebaseUid, { firebaseUid });
+  return ctx.runQuery(component.lib.getUserByFirebaseUid, {
+    firebaseUid,
+    tenantId: options?.tenantId,
+    projectId: options?.projectId,
+  });
+}
+
+/**
+ * Returns the user's custom claims as of their last verified token, or null
+ * if the user is unknown. `Claims` describes the claims your app sets.
+ */
+export async function getCustomClaims<
+  Claims extends Record<string, unknown> = Record<string, unknown>,
+>(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  options?: TenantOptions & {
+    /** The project the user signed in to, when several are trusted. */
+    projectId?: string;
+  },
+): Promise<Claims | null> {
+  return (await ctx.runQuery(component.lib.getCustomClaims, {
+    firebaseUid,
+    tenantId: options?.tenantId,
+    projectId: options?.projectId,
+  })) as Claims | null;
+}
+
+/**
+ * Returns whether `claims` include `claim`, with exactly `value` if given.
+ * Accepts the result of `getCustomClaims` or a decoded token.
+ */
+export function hasClaim(
+  claims: Record<string, unknown> | null | undefined,
+  claim: string,
+  value?: unknown,
+): boolean {
+  if (!claims || claims[claim] === undefined) return false;
+  return (
+    value === undefined ||
+    JSON.stringify(claims[claim]) === JSON.stringify(value)
+  );
+}
+
+/**
+ * Returns the provider identities linked to the user, e.g.
+ * `{ providerId: "google.com", providerUid: "1234567890" }`.
+ */
+export function listIdentities(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  options?: TenantOptions & {
+    /** The project the user signed in to, when several are trusted. */
+    projectId?: string;
+  },
+) {
+  return ctx.runQuery(component.lib.listIdentities, {
+    firebaseUid,
+    tenantId: options?.tenantId,
+    projectId: options?.projectId,
+  });
+}
+
+/** Finds the user linked to a provider identity, e.g. a Google subject ID. */
+export function getUserByIdentity(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  providerId: string,
+  providerUid: string,
+  options?: TenantOptions,
+) {
+  return ctx.runQuery(component.lib.getUserByIdentity, {
+    providerId,
+    providerUid,
+    tenantId: options?.tenantId,
+  });
+}
+
+/**
+ * Returns the user's unexpired sessions, newest first, with the device each
+ * was opened on.
+ */
+export function listSessions(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  options?: TenantOptions,
+) {
+  return ctx.runQuery(component.lib.listSessions, {
+    firebaseUid,
+    tenantId: options?.tenantId,
+  });
+}
+
+/**
+ * Signs one device out by revoking its session. The token that opened it is
+ * rejected from then on, but the device can still refresh it; revoking all
+ * refresh tokens, with `checkRevoked`, is the only way to lock it out.
+ */
+export function revokeSession(
+  ctx: MutationCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  sessionId: string,
+  options?: TenantOptions,
+) {
+  return ctx.runMutation(component.lib.revokeSession, {
+    firebaseUid,
+    sessionId,
+    tenantId: options?.tenantId,
+  });
 }
 
 export function getUserData(
   ctx: ActionCtx,
   component: ComponentApi,
   idToken: string,
+  options?: EmulatorOptions & TenantOptions,
 ) {
   const firebaseApiKey = getEnvVar("FIREBASE_API_KEY");
   return ctx.runAction(component.lib.getUserData, {
     idToken,
     firebaseApiKey,
+    emulatorHost: getEmulatorHost(options?.emulatorHost),
+    tenantId: options?.tenantId,
   });
 }
 
+/**
+ * Mints a custom token for `uid`, which a client exchanges via
+ * `signInWithCustomToken`. Developer claims are copied onto the ID tokens
+ * of that sign-in and may not use names Firebase reserves.
+ */
+export function createCustomToken(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  uid: string,
+  developerClaims?: Record<string, unknown>,
+  options?: ServiceAccountOptions & TenantOptions,
+): Promise<string> {
+  const serviceAccount = getServiceAccount(options?.serviceAccount);
+  return ctx.runAction(component.lib.createCustomToken, {
+    uid,
+    developerClaims,
+    tenantId: options?.tenantId,
+    serviceAccountEmail: serviceAccount.clientEmail,
+    serviceAccountPrivateKey: serviceAccount.privateKey,
+  });
+}
+
+/**
+ * Looks up a user in Firebase with service account credentials and stores
+ * the result. Returns null if Firebase has no such user.
+ */
+export async function adminGetUser(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  options?: AdminOptions,
+) {
+  return await ctx.runAction(component.lib.adminGetUser, {
+    ...getAdminArgs(options),
+    hooks: await getHookHandles(options?.hooks),
+    firebaseUid,
+  });
+}
+
+/**
+ * Updates a user's email, password, disabled flag or phone number in
+ * Firebase and the stored user. Pass `phoneNumber: null` to remove it.
+ */
+export async function adminUpdateUser(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  updates: {
+    email?: string;
+    password?: string;
+    disabled?: boolean;
+    phoneNumber?: string | null;
+  },
+  options?: AdminOptions,
+) {
+  return await ctx.runAction(component.lib.adminUpdateUser, {
+    ...getAdminArgs(options),
+    hooks: await getHookHandles(options?.hooks),
+    firebaseUid,
+    ...updates,
+  });
+}
+
+/**
+ * Replaces a user's custom claims in Firebase and the stored user. They
+ * appear on the user's ID tokens from the next token refresh.
+ */
+export async function adminSetCustomClaims(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  customClaims: Record<string, unknown>,
+  options?: AdminOptions,
+) {
+  return await ctx.runAction(component.lib.adminSetCustomClaims, {
+    ...getAdminArgs(options),
+    hooks: await getHookHandles(options?.hooks),
+    firebaseUid,
+    customClaims,
+  });
+}
+
+/** Deletes a user from Firebase along with the stored user and sessions. */
+export async function adminDeleteUser(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  firebaseUid: string,
+  options?: AdminOptions,
+) {
+  return await ctx.runAction(component.lib.adminDeleteUser, {
+    ...getAdminArgs(options),
+    hooks: await getHookHandles(options?.hooks),
+    firebaseUid,
+  });
+}
+
+// ─── Authorization ─────────────────────────────────────────────────────────
+
+/**
+ * The exposed functions that act on a specific user and are therefore
+ * subject to authorization.
+ */
+export type AuthorizedAction =
+  | "getUser"
+  | "getUserById"
+  | "signOut"
+  | "deleteUser"
+  | "listSessions"
+  | "revokeSession";
+
+/**
+ * The exposed functions only admins may call, whichever user they target.
+ */
+export type AdminAction =
+  | "disableUser"
+  | "enableUser"
+  | "listUsers"
+  | "getUserByEmail"
+  | "getUserByPhoneNumber"
+  | "searchUsers";
+
+/**
+ * Decides whether the caller may perform `action` on `targetUid` when the
+ * target is not the caller themselves. Return `true` to allow the call.
+ */
+export type AuthorizeCallback = (
+  ctx: AuthorizeCtx,
+  action: AuthorizedAction,
+  targetUid: string,
+) => boolean | Promise<boolean>;
+
+/**
+ * Thrown by the functions returned from `exposeApi` when the caller is not
+ * allowed to act on the requested user.
+ */
+export class UnauthorizedError extends ConvexError<{
+  code: "auth/unauthorized";
+  message: string;
+  action: AuthorizedAction | AdminAction;
+  targetUid: string | null;
+}> {
+  constructor(
+    action: AuthorizedAction | AdminAction,
+    targetUid: string | null,
+    message?: string,
+  ) {
+    super({
+      code: "auth/unauthorized",
+      message:
+        message ??
+        (targetUid === null
+          ? `${action} requires an authenticated caller`
+          : `Not authorized to ${action} for user ${targetUid}`),
+      action,
+      targetUid,
+    });
+    this.name = "UnauthorizedError";
+  }
+}
+
+/** A caller, as identified by `getCaller` or `exposeApi`'s `identify`. */
+export type Caller = {
+  firebaseUid: string;
+  /** The Firebase project that issued the caller's token, when known. */
+  projectId?: string;
+  /** The Identity Platform tenant the caller signed in to, if any. */
+  tenantId?: string;
+};
+
+const FIREBASE_ISSUER_PREFIX = "https://securetoken.google.com/";
+
+/**
+ * Returns the caller's Firebase UID, project and tenant, taken from the
+ * identity Convex verified for this request, or `null` for unauthenticated
+ * callers. The project is the suffix of the Firebase issuer, or else the `aud`
+ * claim; the tenant is the `firebase.tenant` claim.
+ */
+export async function getCaller(
+  ctx: Pick<AuthorizeCtx, "auth">,
+): Promise<Caller | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return {
+    firebaseUid: identity.subject,
+    projectId: getIdentityProjectId(identity),
+    tenantId: getIdentityTenantId(identity),
+  };
+}
+
+function getIdentityTenantId(identity: UserIdentity): string | undefined {
+  const firebase = identity.firebase;
+  if (typeof firebase !== "object" || firebase === null) return undefined;
+  const tenant = (firebase as Record<string, unknown>).tenant;
+  return typeof tenant === "string" ? tenant : undefined;
+}
+
+// Callers may only act as users of the tenant the functions were set up for
+function assertCallerTenant(caller: Caller, tenantId: string | undefined) {
+  if (caller.tenantId !== tenantId) {
+    throw new FirebaseAuthError(
+      "auth/tenant-not-allowed",
+      `Tenant not allowed: ${caller.tenantId}`,
+    );
+  }
+}
+
+function getIdentityProjectId(identity: UserIdentity): string | undefined {
+  if (identity.issuer.startsWith(FIREBASE_ISSUER_PREFIX)) {
+    return identity.issuer.slice(FIREBASE_ISSUER_PREFIX.length);
+  }
+  return typeof identity.aud === "string" ? identity.aud : undefined;
+}
+
+// ─── Roles ─────────────────────────────────────────────────────────────────
+
+/** Options of `requireRole` and `requirePermission`. */
+export type RoleCheckOptions = TenantOptions & {
+  /** The user to check. Defaults to the caller, as `getCaller` sees it. */
+  firebaseUid?: string;
+  /**
+   * The project the user signed in to, when several are trusted. Defaults to
+   * the caller's project when checking the caller.
+   */
+  projectId?: string;
+};
+
+/**
+ * Throws unless the user holds `role`, with code `auth/role-required`.
+ * Returns the user's roles and permissions.
+ */
+export async function requireRole(
+  ctx: RoleCheckCtx,
+  component: ComponentApi,
+  role: string,
+  options?: RoleCheckOptions,
+) {
+  const userRoles = await getRolesToCheck(ctx, component, options);
+  if (!userRoles.roles.includes(role)) {
+    throw new FirebaseAuthError("auth/role-required", `Role required: ${role}`);
+  }
+  return userRoles;
+}
+
+/**
+ * Throws unless one of the user's roles grants `permission`, with code
+ * `auth/permission-required`. Returns the user's roles and permissions.
+ */
+export async function requirePermission(
+  ctx: RoleCheckCtx,
+  component: ComponentApi,
+  permission: string,
+  options?: RoleCheckOptions,
+) {
+  const userRoles = await getRolesToCheck(ctx, component, options);
+  if (!userRoles.permissions.includes(permission)) {
+    throw new FirebaseAuthError(
+      "auth/permission-required",
+      `Permission required: ${permission}`,
+    );
+  }
+  return userRoles;
+}
+
+async function getRolesToCheck(
+  ctx: RoleCheckCtx,
+  component: ComponentApi,
+  options: RoleCheckOptions | undefined,
+) {
+  const caller =
+    options?.firebaseUid === undefined
+      ? await getCaller(ctx)
+      : { firebaseUid: options.firebaseUid };
+  if (caller === null) {
+    throw new FirebaseAuthError("auth/unauthorized", "Authentication required");
+  }
+  if (options?.firebaseUid === undefined) {
+    assertCallerTenant(caller, options?.tenantId);
+  }
+  return await ctx.runQuery(component.lib.getUserRoles, {
+    firebaseUid: caller.firebaseUid,
+    tenantId: options?.tenantId,
+    projectId: options?.projectId ?? caller.projectId,
+  });
+}
+
+// ─── Authenticated Functions ───────────────────────────────────────────────
+
+/** A stored user, with custom claims parsed. */
+export type AuthedUser = Omit<
+  NonNullable<FunctionReturnType<ComponentApi["lib"]["getUserByFirebaseUid"]>>,
+  "customClaims"
+> & { customClaims: Record<string, unknown> };
+
+/** Options of `authedQuery`, `authedMutation` and `authedAction`. */
+export type AuthedFunctionOptions = TenantOptions & {
+  /** Reject users whose email address is not verified. */
+  requireEmailVerified?: boolean;
+  /** Accept users signed in anonymously, who are rejected by default. */
+  allowAnonymous?: boolean;
+};
+
+type AuthedDefinition<Ctx, Args extends PropertyValidators, Output> = {
+  args: Args;
+  returns?: GenericValidator;
+  handler: (ctx: Ctx & { user: AuthedUser }, args: ObjectType<Args>) => Output;
+};
+
+/**
+ * Returns a builder for public queries that only run for signed-in users.
+ * The caller's stored user is available as `ctx.user`; unknown or disabled
+ * users are rejected before the handler runs.
+ *
+ * ```ts
+ * const userQuery = authedQuery<DataModel>(components.convexFirebaseAuth);
+ * export const myProfile = userQuery({
+ *   args: {},
+ *   handler: async (ctx) => ctx.user,
+ * });
+ * ```
+ */
+export function authedQuery<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(component: ComponentApi, options?: AuthedFunctionOptions) {
+  return <Args extends PropertyValidators, Output>(
+    definition: AuthedDefinition<GenericQueryCtx<DataModel>, Args, Output>,
+  ) =>
+    queryGeneric({
+      args: definition.args,
+      returns: definition.returns,
+      handler: async (
+        ctx: GenericQueryCtx<DataModel>,
+        args: ObjectType<Args>,
+      ) =>
+        await definition.handler(
+          { ...ctx, user: await getAuthedUser(ctx, component, options) },
+          args,
+        ),
+    }) as RegisteredQuery<"public", ObjectType<Args>, Promise<Awaited<Output>>>;
+}
+
+/** Like `authedQuery`, for mutations. */
+export function authedMutation<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(component: ComponentApi, options?: AuthedFunctionOptions) {
+  return <Args extends PropertyValidators, Output>(
+    definition: AuthedDefinition<GenericMutationCtx<DataModel>, Args, Output>,
+  ) =>
+    mutationGeneric({
+      args: definition.args,
+      returns: definition.returns,
+      handler: async (
+        ctx: GenericMutationCtx<DataModel>,
+        args: ObjectType<Args>,
+      ) =>
+        await definition.handler(
+          { ...ctx, user: await getAuthedUser(ctx, component, options) },
+          args,
+        ),
+    }) as RegisteredMutation<
+      "public",
+      ObjectType<Args>,
+      Promise<Awaited<Output>>
+    >;
+}
+
+/**
+ * Like `authedQuery`, for actions. `ctx.user` is read once, before the
+ * handler runs.
+ */
+export function authedAction<
+  DataModel extends GenericDataModel = GenericDataModel,
+>(component: ComponentApi, options?: AuthedFunctionOptions) {
+  return <Args extends PropertyValidators, Output>(
+    definition: AuthedDefinition<GenericActionCtx<DataModel>, Args, Output>,
+  ) =>
+    actionGeneric({
+      args: definition.args,
+      returns: definition.returns,
+      handler: async (
+        ctx: GenericActionCtx<DataModel>,
+        args: ObjectType<Args>,
+      ) =>
+        await definition.handler(
+          { ...ctx, user: await getAuthedUser(ctx, component, options) },
+          args,
+        ),
+    }) as RegisteredAction<
+      "public",
+      ObjectType<Args>,
+      Promise<Awaited<Output>>
+    >;
+}
+
+// Resolves the caller's stored user and applies the builder options
+async function getAuthedUser(
+  ctx: RoleCheckCtx,
+  component: ComponentApi,
+  options: AuthedFunctionOptions | undefined,
+): Promise<AuthedUser> {
+  const caller = await getCaller(ctx);
+  if (caller === null) {
+    throw new FirebaseAuthError("auth/unauthorized", "Authentication required");
+  }
+  assertCallerTenant(caller, options?.tenantId);
+  const user = await ctx.runQuery(component.lib.getUserByFirebaseUid, {
+    firebaseUid: caller.firebaseUid,
+    tenantId: options?.tenantId,
+    projectId: caller.projectId,
+  });
+  if (!user) {
+    throw new FirebaseAuthError("auth/user-not-found", "User not found");
+  }
+  if (user.disabled) {
+    throw new FirebaseAuthError("auth/user-disabled", "User is disabled");
+  }
+  if (options?.requireEmailVerified && !user.emailVerified) {
+    throw new FirebaseAuthError(
+      "auth/email-not-verified",
+      "Email address is not verified",
+    );
+  }
+  if (!options?.allowAnonymous && user.isAnonymous) {
+    throw new FirebaseAuthError(
+      "auth/sign-in-provider-not-allowed",
+      "Anonymous users are not allowed",
+    );
+  }
+  return withParsedClaims(user);
+}
+
 // ─── exposeApi Factory ─────────────────────────────────────────────────────
 
+// Filters of `listUsers`, shared by `exposeApi` and the `/users` route
+const listUsersFilters = {
+  providerId: v.optional(v.string()),
+  isAnonymous: v.optional(v.boolean()),
+  disabled: v.optional(v.boolean()),
+  emailVerified: v.optional(v.boolean()),
+  signedInAfter: v.optional(v.number()),
+  signedInBefore: v.optional(v.number()),
+};
+
 export function exposeApi(
   component: ComponentApi,
-  options?: {
-    firebaseProjectId?: string;
-    firebaseApiKey?: string;
-  },
+  options?: SignInOptions &
+    TenantOptions & {
+      /** Trusted project ID(s). Defaults to `FIREBASE_PROJECT_ID`. */
+      firebaseProjectId?: string | string[];
+      firebaseApiKey?: string;
+      /**
+       * Resolves the caller's Firebase UID, or their UID, project and tenant.
+       * Defaults to `getCaller`; override it to identify callers some other
+       * way, e.g. from a verified session. A bare UID is taken to belong to
+       * `tenantId`.
+       */
+      identify?: (ctx: AuthorizeCtx) => Promise<Caller | string | null>;
+      /**
+       * Called when a caller targets a user other than themselves. Without it,
+       * callers can only act on their own user.
+       */
+      authorize?: AuthorizeCallback;
+      /**
+       * Decides whether the caller may perform an admin action on
+       * `targetUid`, even their own user. `targetUid` is null for listing
+       * and searching users. Without it, admin actions are rejected.
+       */
+      authorizeAdmin?: (
+        ctx: AuthorizeCtx,
+        action: AdminAction,
+        targetUid: string | null,
+      ) => boolean | Promise<boolean>;
+    },
 ) {
-  const getProjectId = () =>
-    options?.firebaseProjectId ?? getEnvVar("FIREBASE_PROJECT_ID");
+  const getProjectId = () => getProjectIds(options?.firebaseProjectId);
   const getApiKey = () =>
     options?.firebaseApiKey ?? getEnvVar("FIREBASE_API_KEY");
+  const identify = options?.identify ?? getCaller;
+  const emulatorHost = () => getEmulatorHost(options?.emulatorHost);
+
+  // Resolves the user to act on (the caller unless `firebaseUid` is given)
+  // and throws unless the caller is that user or `authorize` allows it. The
+  // caller's own user is looked up in the project that issued their token;
+  // callers from another tenant are never that user.
+  const authorizeTarget = async (
+    ctx: AuthorizeCtx,
+    action: AuthorizedAction,
+    firebaseUid: string | undefined,
+  ): Promise<Caller> => {
+    const identified = await identify(ctx);
+    const caller =
+      typeof identified === "string"
+        ? { firebaseUid: identified, tenantId: options?.tenantId }
+        : identified;
+    const targetUid = firebaseUid ?? caller?.firebaseUid ?? null;
+    if (targetUid === null) {
+      throw new UnauthorizedError(action, null);
+    }
+    if (
+      caller &&
+      targetUid === caller.firebaseUid &&
+      caller.tenantId === options?.tenantId
+    ) {
+      return { firebaseUid: targetUid, projectId: caller.projectId };
+    }
+    if (
+      options?.authorize &&
+      (await options.authorize(ctx, action, targetUid))
+    ) {
+      return { firebaseUid: targetUid };
+    }
+    throw new UnauthorizedError(action, targetUid);
+  };
+
+  const authorizeAdmin = async (
+    ctx: AuthorizeCtx,
+    action: AdminAction,
+    targetUid: string | null,
+  ) => {
+    if (
+      !options?.authorizeAdmin ||
+      !(await options.authorizeAdmin(ctx, action, targetUid))
+    ) {
+      throw new UnauthorizedError(
+        action,
+        targetUid,
+        targetUid === null ? `Not authorized to ${action}` : undefined,
+      );
+    }
+  };
 
   return {
     verifyToken: actionGeneric({
-      args: { idToken: v.string() },
+      args: {
+        idToken: v.string(),
+        anonymousIdToken: v.optional(v.string()),
+        deviceLabel: v.optional(v.string()),
+      },
       handler: async (ctx, args) => {
         return await ctx.runAction(component.lib.verifyToken, {
           idToken: args.idToken,
           firebaseProjectId: getProjectId(),
+          checkRevoked: options?.checkRevoked,
+          emulatorHost: emulatorHost(),
+          policy: options?.policy,
+          rolesClaim: options?.rolesClaim,
+          hooks: await getHookHandles(options?.hooks),
+          anonymousIdToken: args.anonymousIdToken,
+          device:
+            args.deviceLabel === undefined
+              ? undefined
+              : { deviceLabel: args.deviceLabel },
         });
       },
     }),
 
     getUser: queryGeneric({
-      args: { firebaseUid: v.string() },
+      args: { firebaseUid: v.optional(v.string()) },
       handler: async (ctx, args) => {
-        return await ctx.runQuery(component.lib.getUserByFirebaseUid, {
-          firebaseUid: args.firebaseUid,
+        const target = await authorizeTarget(ctx, "getUser", args.firebaseUid);
+        const user = await ctx.runQuery(component.lib.getUserByFirebaseUid, {
+          ...target,
+          tenantId: options?.tenantId,
         });
+        return user && withParsedClaims(user);
       },
     }),
 
     getUserById: queryGeneric({
       args: { userId: v.string() },
       handler: async (ctx, args) => {
-        return await ctx.runQuery(component.lib.getUser, {
+        const user = await ctx.runQuery(component.lib.getUser, {
           userId: args.userId,
         });
+        if (!user) return null;
+        // Authorize before the tenant check, so unauthorized callers can't
+        // tell whether the user exists in another tenant
+        await authorizeTarget(ctx, "getUserById", user.firebaseUid);
+        if (user.tenantId !== options?.tenantId) return null;
+        return withParsedClaims(user);
       },
     }),
 
     signOut: mutationGeneric({
-      args: { firebaseUid: v.string() },
+      args: { firebaseUid: v.optional(v.string()) },
       handler: async (ctx, args) => {
+        const target = await authorizeTarget(ctx, "signOut", args.firebaseUid);
         await ctx.runMutation(component.lib.invalidateAllSessions, {
-          firebaseUid: args.firebaseUid,
+          ...target,
+          tenantId: options?.tenantId,
+        });
+      },
+    }),
+
+    listSessions: queryGeneric({
+      args: { firebaseUid: v.optional(v.string()) },
+      handler: async (ctx, args) => {
+        const target = await authorizeTarget(
+          ctx,
+          "listSessions",
+          args.firebaseUid,
+        );
+        return await ctx.runQuery(component.lib.listSessions, {
+          ...target,
+          tenantId: options?.tenantId,
+        });
+      },
+    }),
+
+    revokeSession: mutationGeneric({
+      args: { sessionId: v.string(), firebaseUid: v.optional(v.string()) },
+      handler: async (ctx, args) => {
+        const target = await authorizeTarget(
+          ctx,
+          "revokeSession",
+          args.firebaseUid,
+        );
+        await ctx.runMutation(component.lib.revokeSession, {
+          ...target,
+          sessionId: args.sessionId,
+          tenantId: options?.tenantId,
         });
       },
     }),
 
     deleteUser: mutationGeneric({
-      args: { firebaseUid: v.string() },
+      args: { firebaseUid: v.optional(v.string()) },
       handler: async (ctx, args) => {
+        const target = await authorizeTarget(
+          ctx,
+          "deleteUser",
+          args.firebaseUid,
+        );
         await ctx.runMutation(component.lib.deleteUser, {
+          ...target,
+          tenantId: options?.tenantId,
+          hooks: await getHookHandles(options?.hooks),
+        });
+      },
+    }),
+
+    disableUser: mutationGeneric({
+      args: { firebaseUid: v.string() },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "disableUser", args.firebaseUid);
+        await ctx.runMutation(component.lib.disableUser, {
+          firebaseUid: args.firebaseUid,
+          tenantId: options?.tenantId,
+          hooks: await getHookHandles(options?.hooks),
+        });
+      },
+    }),
+
+    enableUser: mutationGeneric({
+      args: { firebaseUid: v.string() },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "enableUser", args.firebaseUid);
+        await ctx.runMutation(component.lib.enableUser, {
           firebaseUid: args.firebaseUid,
+          tenantId: options?.tenantId,
+          hooks: await getHookHandles(options?.hooks),
+        });
+      },
+    }),
+
+    listUsers: queryGeneric({
+      args: {
+        paginationOpts: paginationOptsValidator,
+        ...listUsersFilters,
+      },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "listUsers", null);
+        const result = await ctx.runQuery(component.lib.listUsers, {
+          ...args,
+          tenantId: options?.tenantId,
+        });
+        return { ...result, page: result.page.map(withParsedClaims) };
+      },
+    }),
+
+    getUserByEmail: queryGeneric({
+      args: { email: v.string(), projectId: v.optional(v.string()) },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "getUserByEmail", null);
+        const user = await ctx.runQuery(component.lib.getUserByEmail, {
+          email: args.email,
+          tenantId: options?.tenantId,
+          projectId: args.projectId,
+        });
+        return user && withParsedClaims(user);
+      },
+    }),
+
+    getUserByPhoneNumber: queryGeneric({
+      args: { phoneNumber: v.string(), projectId: v.optional(v.string()) },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "getUserByPhoneNumber", null);
+        const user = await ctx.runQuery(component.lib.getUserByPhoneNumber, {
+          phoneNumber: args.phoneNumber,
+          tenantId: options?.tenantId,
+          projectId: args.projectId,
+        });
+        return user && withParsedClaims(user);
+      },
+    }),
+
+    searchUsers: queryGeneric({
+      args: { query: v.string(), limit: v.optional(v.number()) },
+      handler: async (ctx, args) => {
+        await authorizeAdmin(ctx, "searchUsers", null);
+        const users = await ctx.runQuery(component.lib.searchUsers, {
+          query: args.query,
+          limit: args.limit,
+          tenantId: options?.tenantId,
         });
+        return users.map(withParsedClaims);
       },
     }),
 
@@ -114,6 +1202,8 @@ export function exposeApi(
         await ctx.runAction(component.lib.sendPasswordResetEmail, {
           email: args.email,
           firebaseApiKey: getApiKey(),
+          emulatorHost: emulatorHost(),
+          tenantId: options?.tenantId,
         });
       },
     }),
@@ -124,6 +1214,8 @@ export function exposeApi(
         await ctx.runAction(component.lib.sendEmailVerification, {
           idToken: args.idToken,
           firebaseApiKey: getApiKey(),
+          emulatorHost: emulatorHost(),
+          tenantId: options?.tenantId,
         });
       },
     }),
@@ -138,76 +1230,363 @@ export function registerRoutes(
   {
     pathPrefix = "/auth",
     firebaseProjectId,
-  }: { pathPrefix?: string; firebaseProjectId?: string } = {},
+    sessionCookieName = "__session",
+    checkRevoked,
+    emulatorHost,
+    policy,
+    rolesClaim,
+    hooks,
+    requireAppCheck = false,
+    firebaseProjectNumber,
+    authorizeAdmin,
+  }: SignInOptions & {
+    pathPrefix?: string;
+    /** Trusted project ID(s). Defaults to `FIREBASE_PROJECT_ID`. */
+    firebaseProjectId?: string | string[];
+    sessionCookieName?: string;
+    /**
+     * Reject requests without a valid App Check token in the
+     * `X-Firebase-AppCheck` header.
+     */
+    requireAppCheck?: boolean;
+    /** Used to verify App Check tokens. Defaults to `FIREBASE_PROJECT_NUMBER`. */
+    firebaseProjectNumber?: string;
+    /**
+     * Decides whether a request may list and look up users through the
+     * `/users` route, or look up other users than the caller through the
+     * `/user` route. Without it, both reject such requests.
+     */
+    authorizeAdmin?: (
+      ctx: GenericActionCtx<GenericDataModel>,
+      request: Request,
+    ) => boolean | Promise<boolean>;
+  } = {},
 ) {
-  const getProjectId = () =>
-    firebaseProjectId ?? getEnvVar("FIREBASE_PROJECT_ID");
+  const getProjectId = () => getProjectIds(firebaseProjectId);
+
+  // Throws unless App Check is off or the request carries a valid token
+  const checkAppCheck = async (ctx: ActionCtx, request: Request) => {
+    if (!requireAppCheck) return;
+    const appCheckToken = request.headers.get("X-Firebase-AppCheck");
+    if (!appCheckToken) {
+      throw new FirebaseAuthError(
+        "auth/invalid-app-check-token",
+        "X-Firebase-AppCheck header is required",
+      );
+    }
+    await ctx.runAction(component.lib.verifyAppCheckToken, {
+      appCheckToken,
+      firebaseProjectNumber:
+        firebaseProjectNumber ?? getEnvVar("FIREBASE_PROJECT_NUMBER"),
+    });
+  };
 
   http.route({
     path: `${pathPrefix}/verify`,
     method: "POST",
     handler: httpActionGeneric(async (ctx, request) => {
       try {
-        const body = (await request.json()) as { idToken?: string };
+        await checkAppCheck(ctx, request);
+        const body = (await request.json().catch(() => ({}))) as {
+          idToken?: string;
+          anonymousIdToken?: string;
+          deviceLabel?: string;
+        };
         if (!body.idToken) {
-          return new Response(
-            JSON.stringify({ error: "idToken is required" }),
-            {
-              status: 400,
-              headers: { "Content-Type": "application/json" },
-            },
+          throw new FirebaseAuthError(
+            "auth/argument-error",
+            "idToken is required",
           );
         }
+        // A label sent by the client wins over the one derived from the
+        // user agent
+        const device = getRequestDevice(request);
+        if (body.deviceLabel) device.deviceLabel = body.deviceLabel;
         const user = await ctx.runAction(component.lib.verifyToken, {
           idToken: body.idToken,
           firebaseProjectId: getProjectId(),
+          checkRevoked,
+          emulatorHost: getEmulatorHost(emulatorHost),
+          policy,
+          rolesClaim,
+          hooks: await getHookHandles(hooks),
+          anonymousIdToken: body.anonymousIdToken,
+          device,
         });
         return new Response(JSON.stringify(user), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: error instanceof Error ? error.message : "Unknown error",
-          }),
-          {
-            status: 401,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+        return errorResponse(error);
+      }
+    }),
+  });
+
+  http.route({
+    path: `${pathPrefix}/session`,
+    method: "GET",
+    handler: httpActionGeneric(async (ctx, request) => {
+      try {
+        await checkAppCheck(ctx, request);
+        const sessionCookie = getSessionCookie(request, sessionCookieName);
+        if (!sessionCookie) {
+          throw new FirebaseAuthError(
+            "auth/invalid-session-cookie",
+            `${sessionCookieName} cookie is required`,
+          );
+        }
+        const user = await ctx.runAction(component.lib.verifySessionCookie, {
+          sessionCookie,
+          firebaseProjectId: getProjectId(),
+          checkRevoked,
+          emulatorHost: getEmulatorHost(emulatorHost),
+          policy,
+          rolesClaim,
+          hooks: await getHookHandles(hooks),
+          device: getRequestDevice(request),
+        });
+        return new Response(JSON.stringify(user), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return errorResponse(error);
       }
     }),
   });
 
+  // Returns the caller's own user or, when `authorizeAdmin` allows the
+  // request, the user given by `firebaseUid`, `tenantId` and `projectId`.
   http.route({
     path: `${pathPrefix}/user`,
     method: "GET",
     handler: httpActionGeneric(async (ctx, request) => {
-      const url = new URL(request.url);
-      const firebaseUid = url.searchParams.get("firebaseUid");
-      if (!firebaseUid) {
-        return new Response(
-          JSON.stringify({ error: "firebaseUid parameter is required" }),
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          },
+      try {
+        await checkAppCheck(ctx, request);
+        const url = new URL(request.url);
+        const firebaseUid = url.searchParams.get("firebaseUid");
+        const tenantId = url.searchParams.get("tenantId") ?? undefined;
+        const caller = await getCaller(ctx);
+        const isCaller =
+          caller !== null &&
+          (firebaseUid === null || firebaseUid === caller.firebaseUid) &&
+          (tenantId === undefined || tenantId === caller.tenantId);
+        if (
+          !isCaller &&
+          (!authorizeAdmin || !(await authorizeAdmin(ctx, request)))
+        ) {
+          throw new FirebaseAuthError(
+            "auth/unauthorized",
+            caller === null && firebaseUid === null
+              ? "Authentication required"
+              : "Not authorized to get this user",
+          );
+        }
+        if (!isCaller && !firebaseUid) {
+          throw new FirebaseAuthError(
+            "auth/argument-error",
+            "firebaseUid parameter is required",
+          );
+        }
+        const user = await ctx.runQuery(
+          component.lib.getUserByFirebaseUid,
+          isCaller
+            ? {
+                firebaseUid: caller.firebaseUid,
+                tenantId: caller.tenantId,
+                projectId: caller.projectId,
+              }
+            : {
+                firebaseUid: firebaseUid!,
+                tenantId,
+                projectId: url.searchParams.get("projectId") ?? undefined,
+              },
         );
+        return new Response(JSON.stringify(user), {
+          status: user ? 200 : 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return errorResponse(error);
       }
-      const user = await ctx.runQuery(component.lib.getUserByFirebaseUid, {
-        firebaseUid,
-      });
-      return new Response(JSON.stringify(user), {
-        status: user ? 200 : 404,
-        headers: { "Content-Type": "application/json" },
-      });
     }),
   });
+
+  // Looks a user up by `email` or `phoneNumber`, searches with `search`, or
+  // else returns a page of users matching the `listUsers` filters.
+  http.route({
+    path: `${pathPrefix}/users`,
+    method: "GET",
+    handler: httpActionGeneric(async (ctx, request) => {
+      try {
+        await checkAppCheck(ctx, request);
+        if (!authorizeAdmin || !(await authorizeAdmin(ctx, request))) {
+          throw new FirebaseAuthError(
+            "auth/unauthorized",
+            "Not authorized to list users",
+          );
+        }
+        const params = new URL(request.url).searchParams;
+        const tenantId = params.get("tenantId") ?? undefined;
+        const projectId = params.get("projectId") ?? undefined;
+        const email = params.get("email");
+        const phoneNumber = params.get("phoneNumber");
+        const search = params.get("search");
+
+        if (email !== null || phoneNumber !== null) {
+          const user =
+            email !== null
+              ? await ctx.runQuery(component.lib.getUserByEmail, {
+                  email,
+                  tenantId,
+                  projectId,
+                })
+              : await ctx.runQuery(component.lib.getUserByPhoneNumber, {
+                  phoneNumber: phoneNumber!,
+                  tenantId,
+                  projectId,
+                });
+          return new Response(JSON.stringify(user), {
+            status: user ? 200 : 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        const result =
+          search !== null
+            ? await ctx.runQuery(component.lib.searchUsers, {
+                query: search,
+                limit: numberParam(params, "limit"),
+                tenantId,
+              })
+            : await ctx.runQuery(component.lib.listUsers, {
+                paginationOpts: {
+                  numItems:
+                    numberParam(params, "numItems") ?? DEFAULT_USERS_PAGE_SIZE,
+                  cursor: params.get("cursor"),
+                },
+                tenantId,
+                providerId: params.get("providerId") ?? undefined,
+                isAnonymous: booleanParam(params, "isAnonymous"),
+                disabled: booleanParam(params, "disabled"),
+                emailVerified: booleanParam(params, "emailVerified"),
+                signedInAfter: numberParam(params, "signedInAfter"),
+                signedInBefore: numberParam(params, "signedInBefore"),
+              });
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }),
+  });
+}
+
+// Page size of the `/users` route unless `numItems` is given
+const DEFAULT_USERS_PAGE_SIZE = 50;
+
+function booleanParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (value !== "true" && value !== "false") {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      `${name} must be true or false`,
+    );
+  }
+  return value === "true";
+}
+
+function numberParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      `${name} must be a number`,
+    );
+  }
+  return number;
 }
 
 // ─── Utilities ─────────────────────────────────────────────────────────────
 
+// Reports an error as JSON with the status that matches its code. Errors
+// without a code are unexpected and reported as internal errors.
+function errorResponse(error: unknown): Response {
+  const code = getErrorCode(error) ?? "auth/internal-error";
+  return new Response(JSON.stringify({ error: getErrorMessage(error), code }), {
+    status: httpStatusForErrorCode(code),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Users are stored with their custom claims serialized as JSON
+function withParsedClaims<User extends { customClaims?: string }>(user: User) {
+  return { ...user, customClaims: parseCustomClaims(user.customClaims) };
+}
+
+// The component schedules hooks through function handles
+async function getHookHandles(hooks: UserHooks | undefined) {
+  if (!hooks) return undefined;
+  const handles: Record<string, string> = {};
+  const entries = Object.entries(hooks) as [
+    string,
+    FunctionReference<"mutation", FunctionVisibility> | undefined,
+  ][];
+  for (const [name, hook] of entries) {
+    if (hook) handles[name] = await createFunctionHandle(hook);
+  }
+  return handles as { [Name in keyof UserHooks]?: string };
+}
+
+function getEmulatorHost(emulatorHost: string | undefined) {
+  return emulatorHost ?? (process.env.FIREBASE_AUTH_EMULATOR_HOST || undefined);
+}
+
+// FIREBASE_PROJECT_ID may list several trusted projects, separated by commas.
+function getProjectIds(
+  firebaseProjectId: string | string[] | undefined,
+): string | string[] {
+  if (firebaseProjectId !== undefined) return firebaseProjectId;
+  const projectIds = getEnvVar("FIREBASE_PROJECT_ID")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id !== "");
+  return projectIds.length === 1 ? projectIds[0] : projectIds;
+}
+
+function getAdminArgs(options: AdminOptions | undefined) {
+  const serviceAccount = getServiceAccount(options?.serviceAccount);
+  const firebaseProjectId =
+    options?.firebaseProjectId ?? getProjectIds(undefined);
+  return {
+    firebaseProjectId: Array.isArray(firebaseProjectId)
+      ? firebaseProjectId[0]
+      : firebaseProjectId,
+    serviceAccountEmail: serviceAccount.clientEmail,
+    serviceAccountPrivateKey: serviceAccount.privateKey,
+    oauthTokenUrl: options?.oauthTokenUrl,
+    emulatorHost: getEmulatorHost(options?.emulatorHost),
+    tenantId: options?.tenantId,
+  };
+}
+
+function getServiceAccount(
+  serviceAccount: ServiceAccountOptions["serviceAccount"],
+) {
+  if (serviceAccount !== undefined) return serviceAccount;
+  return {
+    clientEmail: getEnvVar("FIREBASE_CLIENT_EMAIL"),
+    // Dashboards store multi-line values with escaped newlines.
+    privateKey: getEnvVar("FIREBASE_PRIVATE_KEY").replace(/\\n/g, "\n"),
+  };
+}
+
 function getEnvVar(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -219,6 +1598,17 @@ function getEnvVar(name: string): string {
 }
 
 type QueryCtx = Pick<GenericQueryCtx<GenericDataModel>, "runQuery">;
+type MutationCtx = Pick<
+  GenericMutationCtx<GenericDataModel>,
+  "runQuery" | "runMutation"
+>;
+type RoleCheckCtx = Pick<
+  GenericQueryCtx<GenericDataModel>,
+  "auth" | "runQuery"
+>;
+type AuthorizeCtx =
+  | GenericQueryCtx<GenericDataModel>
+  | GenericMutationCtx<GenericDataModel>;
 type ActionCtx = Pick<
   GenericActionCtx<GenericDataModel>,
   "runQuery" | "runMutation" | "runAction"
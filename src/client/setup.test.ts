@@ -6,6 +6,7 @@ export const modules = import.meta.glob("./**/*.*s");
 import {
   defineSchema,
   type GenericSchema,
+  type HttpRouter,
   type SchemaDefinition,
 } from "convex/server";
 import { type ComponentApi } from "../component/_generated/component.js";
@@ -14,8 +15,14 @@ import { register } from "../test.js";
 
 export function initConvexTest<
   Schema extends SchemaDefinition<GenericSchema, boolean>,
->(schema?: Schema) {
-  const t = convexTest(schema ?? defineSchema({}), modules);
+>(schema?: Schema, http?: HttpRouter) {
+  // `t.fetch` serves the routes of the app's `http` module
+  const t = convexTest(
+    schema ?? defineSchema({}),
+    http
+      ? { ...modules, "./http.ts": async () => ({ default: http }) }
+      : modules,
+  );
   register(t);
   return t;
 }
@@ -8,6 +8,8 @@
  * @module
  */
 
+import type * as crons from "../crons.js";
+import type * as errors from "../errors.js";
 import type * as jwtUtils from "../jwtUtils.js";
 import type * as lib from "../lib.js";
 
@@ -19,6 +21,8 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  crons: typeof crons;
+  errors: typeof errors;
   jwtUtils: typeof jwtUtils;
   lib: typeof lib;
 }> = anyApi as any;
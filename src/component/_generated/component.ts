@@ -24,31 +24,328 @@ import type { FunctionReference } from "convex/server";
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
     lib: {
+      adminDeleteUser: FunctionReference<
+        "action",
+        "internal",
+        {
+          emulatorHost?: string;
+          firebaseProjectId: string;
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          oauthTokenUrl?: string;
+          serviceAccountEmail: string;
+          serviceAccountPrivateKey: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      adminGetUser: FunctionReference<
+        "action",
+        "internal",
+        {
+          emulatorHost?: string;
+          firebaseProjectId: string;
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          oauthTokenUrl?: string;
+          serviceAccountEmail: string;
+          serviceAccountPrivateKey: string;
+          tenantId?: string;
+        },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      adminSetCustomClaims: FunctionReference<
+        "action",
+        "internal",
+        {
+          customClaims: Record<string, any>;
+          emulatorHost?: string;
+          firebaseProjectId: string;
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          oauthTokenUrl?: string;
+          serviceAccountEmail: string;
+          serviceAccountPrivateKey: string;
+          tenantId?: string;
+        },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      adminUpdateUser: FunctionReference<
+        "action",
+        "internal",
+        {
+          disabled?: boolean;
+          email?: string;
+          emulatorHost?: string;
+          firebaseProjectId: string;
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          oauthTokenUrl?: string;
+          password?: string;
+          phoneNumber?: string | null;
+          serviceAccountEmail: string;
+          serviceAccountPrivateKey: string;
+          tenantId?: string;
+        },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      createCustomToken: FunctionReference<
+        "action",
+        "internal",
+        {
+          developerClaims?: Record<string, any>;
+          serviceAccountEmail: string;
+          serviceAccountPrivateKey: string;
+          tenantId?: string;
+          uid: string;
+        },
+        string,
+        Name
+      >;
+      decodeAndVerifyIdToken: FunctionReference<
+        "action",
+        "internal",
+        {
+          checkRevoked?: boolean;
+          emulatorHost?: string;
+          firebaseProjectId: string | Array<string>;
+          idToken: string;
+          policy?: {
+            allowedSignInProviders?: Array<string>;
+            allowedTenants?: Array<string>;
+            clockSkewSeconds?: number;
+            maxTokenAgeSeconds?: number;
+            requireEmailVerified?: boolean;
+            requiredClaims?: Record<string, any>;
+          };
+        },
+        {
+          aud: string;
+          auth_time: number;
+          claims: Record<string, any>;
+          email?: string;
+          email_verified?: boolean;
+          exp: number;
+          firebase?: {
+            identities?: Record<string, Array<string>>;
+            second_factor_identifier?: string;
+            sign_in_provider?: string;
+            sign_in_second_factor?: string;
+            tenant?: string;
+          };
+          iat: number;
+          iss: string;
+          name?: string;
+          phone_number?: string;
+          picture?: string;
+          sub: string;
+        },
+        Name
+      >;
+      defineRole: FunctionReference<
+        "mutation",
+        "internal",
+        { description?: string; name: string; permissions: Array<string> },
+        null,
+        Name
+      >;
       deleteFirebaseAccount: FunctionReference<
         "action",
         "internal",
-        { firebaseApiKey: string; idToken: string },
+        {
+          emulatorHost?: string;
+          firebaseApiKey: string;
+          idToken: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      deleteRole: FunctionReference<
+        "mutation",
+        "internal",
+        { name: string },
         null,
         Name
       >;
       deleteUser: FunctionReference<
         "mutation",
         "internal",
-        { firebaseUid: string },
+        {
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          projectId?: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      disableUser: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          projectId?: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      enableUser: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          projectId?: string;
+          tenantId?: string;
+        },
         null,
         Name
       >;
+      getCustomClaims: FunctionReference<
+        "query",
+        "internal",
+        { firebaseUid: string; projectId?: string; tenantId?: string },
+        null | Record<string, any>,
+        Name
+      >;
+      getKeyFetchHealth: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          consecutiveFailures: number;
+          keySet: "idToken" | "sessionCookie" | "appCheck";
+          keysExpireAt?: number;
+          lastError?: string;
+          lastFailureAt?: number;
+          lastSuccessAt?: number;
+          servingStaleKeys: boolean;
+        }>,
+        Name
+      >;
       getSession: FunctionReference<
         "query",
         "internal",
-        { firebaseUid: string },
+        { firebaseUid: string; projectId?: string; tenantId?: string },
         null | {
           _creationTime: number;
           _id: string;
           createdAt: number;
+          deviceLabel?: string;
           expiresAt: number;
           firebaseUid: string;
+          ipAddress?: string;
           lastActiveAt: number;
+          providerId?: string;
+          tenantId?: string;
+          userAgent?: string;
           userId: string;
         },
         Name
@@ -70,14 +367,41 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           lastSignInTime?: number;
           phoneNumber?: string;
           photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      getUserByEmail: FunctionReference<
+        "query",
+        "internal",
+        { email: string; projectId?: string; tenantId?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
           providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
         },
         Name
       >;
       getUserByFirebaseUid: FunctionReference<
         "query",
         "internal",
-        { firebaseUid: string },
+        { firebaseUid: string; projectId?: string; tenantId?: string },
         null | {
           _creationTime: number;
           _id: string;
@@ -91,21 +415,96 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           lastSignInTime?: number;
           phoneNumber?: string;
           photoURL?: string;
+          projectId?: string;
           providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      getUserByIdentity: FunctionReference<
+        "query",
+        "internal",
+        { providerId: string; providerUid: string; tenantId?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
+      getUserByPhoneNumber: FunctionReference<
+        "query",
+        "internal",
+        { phoneNumber: string; projectId?: string; tenantId?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
         },
         Name
       >;
       getUserData: FunctionReference<
         "action",
         "internal",
-        { firebaseApiKey: string; idToken: string },
+        {
+          emulatorHost?: string;
+          firebaseApiKey: string;
+          idToken: string;
+          tenantId?: string;
+        },
         string,
         Name
       >;
+      getUserRoles: FunctionReference<
+        "query",
+        "internal",
+        { firebaseUid: string; projectId?: string; tenantId?: string },
+        { permissions: Array<string>; roles: Array<string> },
+        Name
+      >;
+      grantRole: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          firebaseUid: string;
+          projectId?: string;
+          role: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
       invalidateAllSessions: FunctionReference<
         "mutation",
         "internal",
-        { firebaseUid: string },
+        { firebaseUid: string; projectId?: string; tenantId?: string },
         null,
         Name
       >;
@@ -116,41 +515,295 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         null,
         Name
       >;
+      listIdentities: FunctionReference<
+        "query",
+        "internal",
+        { firebaseUid: string; projectId?: string; tenantId?: string },
+        Array<{ providerId: string; providerUid: string }>,
+        Name
+      >;
+      listRoles: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          description?: string;
+          name: string;
+          permissions: Array<string>;
+        }>,
+        Name
+      >;
+      listSessions: FunctionReference<
+        "query",
+        "internal",
+        { firebaseUid: string; projectId?: string; tenantId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          createdAt: number;
+          deviceLabel?: string;
+          expiresAt: number;
+          firebaseUid: string;
+          ipAddress?: string;
+          lastActiveAt: number;
+          providerId?: string;
+          tenantId?: string;
+          userAgent?: string;
+          userId: string;
+        }>,
+        Name
+      >;
+      listUsers: FunctionReference<
+        "query",
+        "internal",
+        {
+          disabled?: boolean;
+          emailVerified?: boolean;
+          isAnonymous?: boolean;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          providerId?: string;
+          signedInAfter?: number;
+          signedInBefore?: number;
+          tenantId?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            customClaims?: string;
+            disabled?: boolean;
+            displayName?: string;
+            email?: string;
+            emailVerified?: boolean;
+            firebaseUid: string;
+            isAnonymous?: boolean;
+            lastSignInTime?: number;
+            phoneNumber?: string;
+            photoURL?: string;
+            projectId?: string;
+            providerId?: string;
+            tenantId?: string;
+            tokensValidAfter?: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       refreshToken: FunctionReference<
         "action",
         "internal",
-        { firebaseApiKey: string; refreshTokenValue: string },
+        {
+          emulatorHost?: string;
+          firebaseApiKey: string;
+          refreshTokenValue: string;
+        },
         string,
         Name
       >;
+      revokeRefreshTokens: FunctionReference<
+        "mutation",
+        "internal",
+        { firebaseUid: string; projectId?: string; tenantId?: string },
+        number,
+        Name
+      >;
+      revokeRole: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          firebaseUid: string;
+          projectId?: string;
+          role: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      revokeSession: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          firebaseUid: string;
+          projectId?: string;
+          sessionId: string;
+          tenantId?: string;
+        },
+        null,
+        Name
+      >;
+      searchUsers: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number; query: string; tenantId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        }>,
+        Name
+      >;
       sendEmailVerification: FunctionReference<
         "action",
         "internal",
-        { firebaseApiKey: string; idToken: string },
+        {
+          emulatorHost?: string;
+          firebaseApiKey: string;
+          idToken: string;
+          tenantId?: string;
+        },
         null,
         Name
       >;
       sendPasswordResetEmail: FunctionReference<
         "action",
         "internal",
-        { email: string; firebaseApiKey: string },
+        {
+          email: string;
+          emulatorHost?: string;
+          firebaseApiKey: string;
+          tenantId?: string;
+        },
         null,
         Name
       >;
       updateUserProfile: FunctionReference<
         "mutation",
         "internal",
-        { displayName?: string; firebaseUid: string; photoURL?: string },
+        {
+          displayName?: string;
+          firebaseUid: string;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          photoURL?: string;
+          projectId?: string;
+          tenantId?: string;
+        },
         null,
         Name
       >;
+      verifyAppCheckToken: FunctionReference<
+        "action",
+        "internal",
+        { appCheckToken: string; firebaseProjectNumber: string },
+        { appId: string },
+        Name
+      >;
+      verifySessionCookie: FunctionReference<
+        "action",
+        "internal",
+        {
+          checkRevoked?: boolean;
+          device?: {
+            deviceLabel?: string;
+            ipAddress?: string;
+            userAgent?: string;
+          };
+          emulatorHost?: string;
+          firebaseProjectId: string | Array<string>;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          policy?: {
+            allowedSignInProviders?: Array<string>;
+            allowedTenants?: Array<string>;
+            clockSkewSeconds?: number;
+            maxTokenAgeSeconds?: number;
+            requireEmailVerified?: boolean;
+            requiredClaims?: Record<string, any>;
+          };
+          rolesClaim?: string;
+          sessionCookie: string;
+        },
+        null | {
+          _creationTime: number;
+          _id: string;
+          customClaims?: string;
+          disabled?: boolean;
+          displayName?: string;
+          email?: string;
+          emailVerified?: boolean;
+          firebaseUid: string;
+          isAnonymous?: boolean;
+          lastSignInTime?: number;
+          phoneNumber?: string;
+          photoURL?: string;
+          projectId?: string;
+          providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
+        },
+        Name
+      >;
       verifyToken: FunctionReference<
         "action",
         "internal",
-        { firebaseProjectId: string; idToken: string },
+        {
+          anonymousIdToken?: string;
+          checkRevoked?: boolean;
+          device?: {
+            deviceLabel?: string;
+            ipAddress?: string;
+            userAgent?: string;
+          };
+          emulatorHost?: string;
+          firebaseProjectId: string | Array<string>;
+          hooks?: {
+            onAnonymousMerged?: string;
+            onAnonymousUpgraded?: string;
+            onSignIn?: string;
+            onUserCreated?: string;
+            onUserDeleted?: string;
+            onUserUpdated?: string;
+          };
+          idToken: string;
+          policy?: {
+            allowedSignInProviders?: Array<string>;
+            allowedTenants?: Array<string>;
+            clockSkewSeconds?: number;
+            maxTokenAgeSeconds?: number;
+            requireEmailVerified?: boolean;
+            requiredClaims?: Record<string, any>;
+          };
+          rolesClaim?: string;
+        },
         null | {
           _creationTime: number;
           _id: string;
+          anonymousIdTokenError?: string;
           customClaims?: string;
           disabled?: boolean;
           displayName?: string;
@@ -161,7 +814,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           lastSignInTime?: number;
           phoneNumber?: string;
           photoURL?: string;
+          projectId?: string;
           providerId?: string;
+          tenantId?: string;
+          tokensValidAfter?: number;
         },
         Name
       >;
@@ -0,0 +1,23 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api.js";
+
+const crons = cronJobs();
+
+// Refresh Google public keys before they expire, so no sign-in pays for the
+// fetch. Only key sets already in the cache are refreshed.
+crons.interval(
+  "refresh public keys",
+  { minutes: 5 },
+  internal.lib._refreshPublicKeys,
+  {},
+);
+
+// Delete expired sessions and verified-token cache entries in batches.
+crons.interval(
+  "cleanup expired sessions",
+  { hours: 1 },
+  internal.lib._cleanupExpiredSessions,
+  {},
+);
+
+export default crons;
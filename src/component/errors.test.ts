@@ -0,0 +1,100 @@
+/// <reference types="vite/client" />
+
+import { describe, expect, test } from "vitest";
+import { ConvexError } from "convex/values";
+import {
+  FirebaseAuthError,
+  getErrorCode,
+  getErrorMessage,
+  httpStatusForErrorCode,
+  parseFirebaseRestError,
+} from "./errors.js";
+
+describe("FirebaseAuthError", () => {
+  test("carries code and message in its data", () => {
+    const error = new FirebaseAuthError("auth/id-token-expired", "expired");
+    expect(error).toBeInstanceOf(ConvexError);
+    expect(error.data).toEqual({
+      code: "auth/id-token-expired",
+      message: "expired",
+    });
+    expect(getErrorCode(error)).toBe("auth/id-token-expired");
+    expect(getErrorMessage(error)).toBe("expired");
+  });
+
+  test("reads code and message from serialized data", () => {
+    const error = new ConvexError(
+      JSON.stringify({ code: "auth/id-token-expired", message: "expired" }),
+    );
+    expect(getErrorCode(error)).toBe("auth/id-token-expired");
+    expect(getErrorMessage(error)).toBe("expired");
+    // Serialized once more by each function the error passed through
+    const nested = new ConvexError(JSON.stringify(error.data));
+    expect(getErrorCode(nested)).toBe("auth/id-token-expired");
+  });
+
+  test("getErrorCode returns null for errors without a code", () => {
+    expect(getErrorCode(new Error("plain"))).toBeNull();
+    expect(getErrorCode(new ConvexError("string data"))).toBeNull();
+    expect(getErrorMessage(new Error("plain"))).toBe("plain");
+  });
+});
+
+describe("httpStatusForErrorCode", () => {
+  test("maps codes to HTTP statuses", () => {
+    expect(httpStatusForErrorCode("auth/argument-error")).toBe(400);
+    expect(httpStatusForErrorCode("auth/id-token-expired")).toBe(401);
+    expect(httpStatusForErrorCode("auth/unauthorized")).toBe(403);
+    expect(httpStatusForErrorCode("auth/email-not-found")).toBe(404);
+    expect(httpStatusForErrorCode("auth/too-many-requests")).toBe(429);
+    expect(httpStatusForErrorCode("auth/key-fetch-failed")).toBe(503);
+  });
+
+  test("defaults to 500 for unknown codes", () => {
+    expect(httpStatusForErrorCode("something/else")).toBe(500);
+  });
+});
+
+describe("parseFirebaseRestError", () => {
+  test("maps known Firebase error messages", () => {
+    const error = parseFirebaseRestError(
+      "sendPasswordResetEmail",
+      JSON.stringify({ error: { code: 400, message: "EMAIL_NOT_FOUND" } }),
+    );
+    expect(error.data.code).toBe("auth/email-not-found");
+    expect(error.data.firebaseCode).toBe("EMAIL_NOT_FOUND");
+    expect(error.data.message).toBe(
+      "Firebase sendPasswordResetEmail failed: EMAIL_NOT_FOUND",
+    );
+  });
+
+  test("strips details after the Firebase error code", () => {
+    const error = parseFirebaseRestError(
+      "getUserData",
+      JSON.stringify({
+        error: { message: "TOO_MANY_ATTEMPTS_TRY_LATER : Try again later." },
+      }),
+    );
+    expect(error.data.code).toBe("auth/too-many-requests");
+    expect(error.data.firebaseCode).toBe("TOO_MANY_ATTEMPTS_TRY_LATER");
+  });
+
+  test("recognizes invalid API keys", () => {
+    const error = parseFirebaseRestError(
+      "getUserData",
+      JSON.stringify({
+        error: { message: "API key not valid. Please pass a valid API key." },
+      }),
+    );
+    expect(error.data.code).toBe("auth/invalid-api-key");
+  });
+
+  test("falls back to an internal error for unknown responses", () => {
+    const error = parseFirebaseRestError("refreshToken", "Bad Gateway");
+    expect(error.data.code).toBe("auth/internal-error");
+    expect(error.data.firebaseCode).toBeUndefined();
+    expect(error.data.message).toBe(
+      "Firebase refreshToken failed: Bad Gateway",
+    );
+  });
+});
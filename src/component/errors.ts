@@ -0,0 +1,190 @@
+/**
+ * Structured errors with stable codes, shared by the component, the client
+ * helpers and the React provider.
+ */
+
+import { ConvexError, type Value } from "convex/values";
+
+export type FirebaseAuthErrorCode =
+  | "auth/argument-error"
+  | "auth/invalid-id-token"
+  | "auth/id-token-expired"
+  | "auth/id-token-revoked"
+  | "auth/invalid-session-cookie"
+  | "auth/session-cookie-expired"
+  | "auth/session-cookie-revoked"
+  | "auth/invalid-audience"
+  | "auth/invalid-issuer"
+  | "auth/invalid-app-check-token"
+  | "auth/key-fetch-failed"
+  | "auth/token-too-old"
+  | "auth/email-not-verified"
+  | "auth/sign-in-provider-not-allowed"
+  | "auth/tenant-not-allowed"
+  | "auth/missing-required-claim"
+  | "auth/unauthorized"
+  | "auth/role-required"
+  | "auth/permission-required"
+  | "auth/role-not-found"
+  | "auth/user-not-found"
+  | "auth/user-disabled"
+  | "auth/user-token-expired"
+  | "auth/email-not-found"
+  | "auth/invalid-email"
+  | "auth/invalid-api-key"
+  | "auth/invalid-credential"
+  | "auth/invalid-refresh-token"
+  | "auth/operation-not-allowed"
+  | "auth/requires-recent-login"
+  | "auth/too-many-requests"
+  | "auth/internal-error";
+
+export type FirebaseAuthErrorData = {
+  code: FirebaseAuthErrorCode;
+  message: string;
+  /** The raw error code returned by the Firebase REST API, if any. */
+  firebaseCode?: string;
+};
+
+export class FirebaseAuthError extends ConvexError<FirebaseAuthErrorData> {
+  constructor(
+    code: FirebaseAuthErrorCode,
+    message: string,
+    firebaseCode?: string,
+  ) {
+    super(
+      firebaseCode === undefined
+        ? { code, message }
+        : { code, message, firebaseCode },
+    );
+    this.name = "FirebaseAuthError";
+  }
+}
+
+// A `ConvexError`'s data is JSON-serialized each time it crosses a function
+// boundary and is only parsed back by the syscall layer, so unwrap it.
+function errorData(
+  error: ConvexError<Value>,
+): { code?: unknown; message?: unknown } | null {
+  let data: unknown = error.data;
+  while (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  return data as { code?: unknown; message?: unknown } | null;
+}
+
+/**
+ * Returns the error code carried by `error` if it is a `ConvexError` with a
+ * `code`, e.g. one thrown by the component and rethrown across `runAction`.
+ */
+export function getErrorCode(error: unknown): string | null {
+  if (!(error instanceof ConvexError)) return null;
+  const data = errorData(error);
+  return typeof data?.code === "string" ? data.code : null;
+}
+
+/**
+ * Returns the human-readable message of `error`, preferring the `message`
+ * in a `ConvexError`'s data over its serialized form.
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ConvexError) {
+    const data = errorData(error);
+    if (typeof data?.message === "string") return data.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+const HTTP_STATUS: Record<FirebaseAuthErrorCode, number> = {
+  "auth/argument-error": 400,
+  "auth/invalid-id-token": 401,
+  "auth/id-token-expired": 401,
+  "auth/id-token-revoked": 401,
+  "auth/invalid-session-cookie": 401,
+  "auth/session-cookie-expired": 401,
+  "auth/session-cookie-revoked": 401,
+  "auth/invalid-audience": 401,
+  "auth/invalid-issuer": 401,
+  "auth/invalid-app-check-token": 401,
+  "auth/key-fetch-failed": 503,
+  "auth/token-too-old": 401,
+  "auth/email-not-verified": 403,
+  "auth/sign-in-provider-not-allowed": 403,
+  "auth/tenant-not-allowed": 403,
+  "auth/missing-required-claim": 403,
+  "auth/unauthorized": 403,
+  "auth/role-required": 403,
+  "auth/permission-required": 403,
+  "auth/role-not-found": 404,
+  "auth/user-not-found": 404,
+  "auth/user-disabled": 403,
+  "auth/user-token-expired": 401,
+  "auth/email-not-found": 404,
+  "auth/invalid-email": 400,
+  "auth/invalid-api-key": 500,
+  "auth/invalid-credential": 500,
+  "auth/invalid-refresh-token": 400,
+  "auth/operation-not-allowed": 403,
+  "auth/requires-recent-login": 401,
+  "auth/too-many-requests": 429,
+  "auth/internal-error": 500,
+};
+
+/** The HTTP status an error code should be reported with. */
+export function httpStatusForErrorCode(code: string): number {
+  return HTTP_STATUS[code as FirebaseAuthErrorCode] ?? 500;
+}
+
+// Error messages returned by the identitytoolkit and securetoken REST APIs.
+const REST_ERROR_CODES: Record<string, FirebaseAuthErrorCode> = {
+  EMAIL_NOT_FOUND: "auth/email-not-found",
+  INVALID_EMAIL: "auth/invalid-email",
+  INVALID_ID_TOKEN: "auth/invalid-id-token",
+  TOKEN_EXPIRED: "auth/user-token-expired",
+  USER_NOT_FOUND: "auth/user-not-found",
+  USER_DISABLED: "auth/user-disabled",
+  INVALID_REFRESH_TOKEN: "auth/invalid-refresh-token",
+  MISSING_REFRESH_TOKEN: "auth/invalid-refresh-token",
+  INVALID_GRANT_TYPE: "auth/invalid-refresh-token",
+  OPERATION_NOT_ALLOWED: "auth/operation-not-allowed",
+  CREDENTIAL_TOO_OLD_LOGIN_AGAIN: "auth/requires-recent-login",
+  TOO_MANY_ATTEMPTS_TRY_LATER: "auth/too-many-requests",
+};
+
+/**
+ * Builds an error from a failed Firebase REST API response body, which looks
+ * like `{ "error": { "message": "EMAIL_NOT_FOUND" } }`. Messages may carry
+ * details after the code, e.g. `"TOO_MANY_ATTEMPTS_TRY_LATER : ..."`.
+ */
+export function parseFirebaseRestError(
+  operation: string,
+  body: string,
+): FirebaseAuthError {
+  let firebaseCode: string | undefined;
+  try {
+    const parsed = JSON.parse(body) as { error?: { message?: unknown } };
+    if (typeof parsed.error?.message === "string") {
+      firebaseCode = parsed.error.message.split(" : ")[0].trim();
+    }
+  } catch {
+    // Not JSON; report the raw body below.
+  }
+
+  let code: FirebaseAuthErrorCode = "auth/internal-error";
+  if (firebaseCode !== undefined) {
+    if (firebaseCode in REST_ERROR_CODES) {
+      code = REST_ERROR_CODES[firebaseCode];
+    } else if (firebaseCode.startsWith("API key not valid")) {
+      code = "auth/invalid-api-key";
+    }
+  }
+  return new FirebaseAuthError(
+    code,
+    `Firebase ${operation} failed: ${firebaseCode ?? body}`,
+    firebaseCode,
+  );
+}
@@ -4,6 +4,7 @@ import { describe, expect, test } from "vitest";
 import {
   base64urlDecode,
   parseJwt,
+  validateAppCheckClaims,
   validateClaims,
   parseCacheControlMaxAge,
 } from "./jwtUtils.js";
@@ -84,6 +85,13 @@ describe("parseJwt", () => {
     expect(() => parseJwt(token)).toThrow("failed to decode header");
   });
 
+  test("parses unsigned emulator tokens without kid", () => {
+    const token = createFakeJwt({ alg: "none", typ: "JWT" }, { sub: "test" });
+    const parsed = parseJwt(token);
+    expect(parsed.header.alg).toBe("none");
+    expect(parsed.header.kid).toBeUndefined();
+  });
+
   test("throws on missing alg or kid in header", () => {
     const header = { alg: "RS256" }; // missing kid
     const payload = { sub: "test" };
@@ -138,6 +146,25 @@ describe("validateClaims", () => {
     );
   });
 
+  test("accepts any of several trusted projects", () => {
+    const payload = createValidPayload({
+      aud: "other-project",
+      iss: "https://securetoken.google.com/other-project",
+    });
+    expect(() =>
+      validateClaims(payload, [projectId, "other-project"]),
+    ).not.toThrow();
+    expect(() => validateClaims(payload, [projectId])).toThrow(
+      "Invalid audience",
+    );
+
+    // The issuer must name the same project as the audience
+    const mixed = createValidPayload({ aud: "other-project" });
+    expect(() => validateClaims(mixed, [projectId, "other-project"])).toThrow(
+      "Invalid issuer",
+    );
+  });
+
   test("throws for wrong issuer", () => {
     const payload = createValidPayload({
       iss: "https://securetoken.google.com/wrong-project",
@@ -145,6 +172,20 @@ describe("validateClaims", () => {
     expect(() => validateClaims(payload, projectId)).toThrow("Invalid issuer");
   });
 
+  test("accepts a custom issuer prefix", () => {
+    const payload = createValidPayload({
+      iss: `https://session.firebase.google.com/${projectId}`,
+    });
+    expect(() =>
+      validateClaims(
+        payload,
+        projectId,
+        "https://session.firebase.google.com/",
+      ),
+    ).not.toThrow();
+    expect(() => validateClaims(payload, projectId)).toThrow("Invalid issuer");
+  });
+
   test("throws for empty sub", () => {
     const payload = createValidPayload({ sub: "" });
     expect(() => validateClaims(payload, projectId)).toThrow("Invalid subject");
@@ -158,6 +199,89 @@ describe("validateClaims", () => {
       "Invalid auth_time",
     );
   });
+
+  test("tolerates the configured clock skew", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = createValidPayload({ iat: now + 30, auth_time: now + 30 });
+    const issuer = "https://securetoken.google.com/";
+    expect(() =>
+      validateClaims(payload, projectId, issuer, { clockSkewSeconds: 60 }),
+    ).not.toThrow();
+    expect(() =>
+      validateClaims(payload, projectId, issuer, { clockSkewSeconds: 10 }),
+    ).toThrow("issued in the future");
+
+    const expired = createValidPayload({ exp: now - 30 });
+    expect(() =>
+      validateClaims(expired, projectId, issuer, { clockSkewSeconds: 60 }),
+    ).not.toThrow();
+  });
+
+  test("rejects tokens failing the policy, each with its own code", () => {
+    const issuer = "https://securetoken.google.com/";
+    const payload = createValidPayload({
+      iat: Math.floor(Date.now() / 1000) - 600,
+      email_verified: false,
+      firebase: { sign_in_provider: "anonymous" },
+      role: "member",
+    });
+
+    expect(() =>
+      validateClaims(payload, projectId, issuer, { maxTokenAgeSeconds: 300 }),
+    ).toThrow("auth/token-too-old");
+    expect(() =>
+      validateClaims(payload, projectId, issuer, {
+        requireEmailVerified: true,
+      }),
+    ).toThrow("auth/email-not-verified");
+    expect(() =>
+      validateClaims(payload, projectId, issuer, {
+        allowedSignInProviders: ["password", "google.com"],
+      }),
+    ).toThrow("auth/sign-in-provider-not-allowed");
+    expect(() =>
+      validateClaims(payload, projectId, issuer, {
+        requiredClaims: { role: "admin" },
+      }),
+    ).toThrow("auth/missing-required-claim");
+    expect(() =>
+      validateClaims(payload, projectId, issuer, {
+        maxTokenAgeSeconds: 3600,
+        allowedSignInProviders: ["anonymous"],
+        requiredClaims: { role: "member" },
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe("validateAppCheckClaims", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: "https://firebaseappcheck.googleapis.com/123",
+    aud: ["projects/123", "projects/my-project"],
+    sub: "app-id",
+    iat: now - 60,
+    exp: now + 3600,
+  };
+
+  test("accepts a token for the project", () => {
+    expect(() => validateAppCheckClaims(payload, "123")).not.toThrow();
+  });
+
+  test("rejects expired tokens and other projects", () => {
+    expect(() =>
+      validateAppCheckClaims({ ...payload, exp: now - 1 }, "123"),
+    ).toThrow("App Check token has expired");
+    expect(() => validateAppCheckClaims(payload, "456")).toThrow(
+      "Invalid audience",
+    );
+    expect(() =>
+      validateAppCheckClaims(
+        { ...payload, iss: "https://firebaseappcheck.googleapis.com/456" },
+        "123",
+      ),
+    ).toThrow("Invalid issuer");
+  });
 });
 
 describe("parseCacheControlMaxAge", () => {
@@ -3,9 +3,11 @@
  * Uses Web Crypto API - no external dependencies.
  */
 
+import { FirebaseAuthError } from "./errors.js";
+
 export interface JwtHeader {
   alg: string;
-  kid: string;
+  kid?: string;
   typ?: string;
 }
 
@@ -23,11 +25,52 @@ export interface FirebaseTokenPayload {
   phone_number?: string;
   firebase?: {
     sign_in_provider?: string;
-    identities?: Record<string, unknown>;
+    sign_in_second_factor?: string;
+    second_factor_identifier?: string;
+    tenant?: string;
+    /** Provider IDs mapped to the user's identifiers with that provider. */
+    identities?: Record<string, string[]>;
   };
+  /** Custom claims set by the developer. */
   [key: string]: unknown;
 }
 
+/** Claims of a Firebase App Check token. */
+export interface AppCheckTokenPayload {
+  iss: string;
+  /** The project, as `projects/<number>` and `projects/<id>`. */
+  aud: string[];
+  /** The ID of the attested app. */
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+/** Issuer prefix of Firebase ID tokens; the project ID is appended. */
+export const ID_TOKEN_ISSUER = "https://securetoken.google.com/";
+
+/** Issuer prefix of Firebase session cookies; the project ID is appended. */
+export const SESSION_COOKIE_ISSUER = "https://session.firebase.google.com/";
+
+/** Extra requirements a token's claims must meet to be accepted. */
+export interface ClaimsPolicy {
+  /** Seconds of clock difference tolerated on `exp`, `iat` and `auth_time`. */
+  clockSkewSeconds?: number;
+  /** Reject tokens issued more than this many seconds ago. */
+  maxTokenAgeSeconds?: number;
+  /** Reject tokens whose `email_verified` claim is not true. */
+  requireEmailVerified?: boolean;
+  /** Accepted `firebase.sign_in_provider` values, e.g. `["password"]`. */
+  allowedSignInProviders?: string[];
+  /**
+   * Accepted Identity Platform tenant IDs. When set, tokens without a
+   * `firebase.tenant` claim are rejected too.
+   */
+  allowedTenants?: string[];
+  /** Claims the token must carry, each with exactly the given value. */
+  requiredClaims?: Record<string, unknown>;
+}
+
 export interface ParsedJwt {
   header: JwtHeader;
   payload: FirebaseTokenPayload;
@@ -50,10 +93,22 @@ export function base64urlDecode(str: string): Uint8Array {
   return bytes;
 }
 
+export function base64urlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
 export function parseJwt(token: string): ParsedJwt {
   const parts = token.split(".");
   if (parts.length !== 3) {
-    throw new Error("Invalid JWT: expected 3 parts");
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "Invalid JWT: expected 3 parts",
+    );
   }
 
   const [headerB64, payloadB64, signatureB64] = parts;
@@ -65,18 +120,28 @@ export function parseJwt(token: string): ParsedJwt {
     const headerJson = new TextDecoder().decode(base64urlDecode(headerB64));
     header = JSON.parse(headerJson) as JwtHeader;
   } catch {
-    throw new Error("Invalid JWT: failed to decode header");
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "Invalid JWT: failed to decode header",
+    );
   }
 
   try {
     const payloadJson = new TextDecoder().decode(base64urlDecode(payloadB64));
     payload = JSON.parse(payloadJson) as FirebaseTokenPayload;
   } catch {
-    throw new Error("Invalid JWT: failed to decode payload");
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "Invalid JWT: failed to decode payload",
+    );
   }
 
-  if (!header.alg || !header.kid) {
-    throw new Error("Invalid JWT header: missing alg or kid");
+  // Unsigned tokens from the Auth Emulator ("alg": "none") carry no kid
+  if (!header.alg || (!header.kid && header.alg !== "none")) {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "Invalid JWT header: missing alg or kid",
+    );
   }
 
   const signature = base64urlDecode(signatureB64);
@@ -87,41 +152,147 @@ export function parseJwt(token: string): ParsedJwt {
 
 export function validateClaims(
   payload: FirebaseTokenPayload,
-  projectId: string,
+  projectId: string | string[],
+  issuerPrefix: string = ID_TOKEN_ISSUER,
+  policy: ClaimsPolicy = {},
 ): void {
   const now = Math.floor(Date.now() / 1000);
+  const skew = policy.clockSkewSeconds ?? 0;
+  const isSessionCookie = issuerPrefix === SESSION_COOKIE_ISSUER;
+  const expiredCode = isSessionCookie
+    ? "auth/session-cookie-expired"
+    : "auth/id-token-expired";
+  const invalidCode = isSessionCookie
+    ? "auth/invalid-session-cookie"
+    : "auth/invalid-id-token";
 
-  if (!payload.exp || payload.exp <= now) {
-    throw new Error("Token has expired");
+  if (!payload.exp || payload.exp <= now - skew) {
+    throw new FirebaseAuthError(expiredCode, "Token has expired");
   }
 
-  if (!payload.iat || payload.iat > now) {
-    throw new Error("Token issued in the future");
+  if (!payload.iat || payload.iat > now + skew) {
+    throw new FirebaseAuthError(invalidCode, "Token issued in the future");
   }
 
-  if (payload.aud !== projectId) {
-    throw new Error(
-      `Invalid audience: expected ${projectId}, got ${payload.aud}`,
+  // The audience picks which of the trusted projects the token belongs to
+  const projectIds = typeof projectId === "string" ? [projectId] : projectId;
+  if (!projectIds.includes(payload.aud)) {
+    throw new FirebaseAuthError(
+      "auth/invalid-audience",
+      `Invalid audience: expected ${projectIds.join(" or ")}, got ${payload.aud}`,
     );
   }
 
-  const expectedIssuer = `https://securetoken.google.com/${projectId}`;
+  const expectedIssuer = `${issuerPrefix}${payload.aud}`;
   if (payload.iss !== expectedIssuer) {
-    throw new Error(
+    throw new FirebaseAuthError(
+      "auth/invalid-issuer",
       `Invalid issuer: expected ${expectedIssuer}, got ${payload.iss}`,
     );
   }
 
   if (!payload.sub || typeof payload.sub !== "string" || payload.sub === "") {
-    throw new Error("Invalid subject: sub must be a non-empty string");
+    throw new FirebaseAuthError(
+      invalidCode,
+      "Invalid subject: sub must be a non-empty string",
+    );
   }
 
   if (
     payload.auth_time === undefined ||
     payload.auth_time === null ||
-    payload.auth_time > now
+    payload.auth_time > now + skew
+  ) {
+    throw new FirebaseAuthError(invalidCode, "Invalid auth_time");
+  }
+
+  if (
+    policy.maxTokenAgeSeconds !== undefined &&
+    now - payload.iat > policy.maxTokenAgeSeconds + skew
+  ) {
+    throw new FirebaseAuthError(
+      "auth/token-too-old",
+      `Token was issued more than ${policy.maxTokenAgeSeconds} seconds ago`,
+    );
+  }
+
+  if (policy.requireEmailVerified && payload.email_verified !== true) {
+    throw new FirebaseAuthError(
+      "auth/email-not-verified",
+      "Email address is not verified",
+    );
+  }
+
+  const provider = payload.firebase?.sign_in_provider;
+  if (
+    policy.allowedSignInProviders &&
+    (provider === undefined ||
+      !policy.allowedSignInProviders.includes(provider))
   ) {
-    throw new Error("Invalid auth_time");
+    throw new FirebaseAuthError(
+      "auth/sign-in-provider-not-allowed",
+      `Sign-in provider not allowed: ${provider}`,
+    );
+  }
+
+  const tenant = payload.firebase?.tenant;
+  if (
+    policy.allowedTenants &&
+    (tenant === undefined || !policy.allowedTenants.includes(tenant))
+  ) {
+    throw new FirebaseAuthError(
+      "auth/tenant-not-allowed",
+      `Tenant not allowed: ${tenant}`,
+    );
+  }
+
+  for (const [claim, expected] of Object.entries(policy.requiredClaims ?? {})) {
+    if (JSON.stringify(payload[claim]) !== JSON.stringify(expected)) {
+      throw new FirebaseAuthError(
+        "auth/missing-required-claim",
+        `Missing required claim: ${claim}`,
+      );
+    }
+  }
+}
+
+/** Issuer prefix of App Check tokens; the project number is appended. */
+export const APP_CHECK_ISSUER = "https://firebaseappcheck.googleapis.com/";
+
+export function validateAppCheckClaims(
+  payload: AppCheckTokenPayload,
+  projectNumber: string,
+): void {
+  const now = Math.floor(Date.now() / 1000);
+  const invalidCode = "auth/invalid-app-check-token";
+
+  if (!payload.exp || payload.exp <= now) {
+    throw new FirebaseAuthError(invalidCode, "App Check token has expired");
+  }
+
+  if (
+    !Array.isArray(payload.aud) ||
+    !payload.aud.includes(`projects/${projectNumber}`)
+  ) {
+    throw new FirebaseAuthError(
+      invalidCode,
+      `Invalid audience: expected projects/${projectNumber}, got ${String(payload.aud)}`,
+    );
+  }
+
+  const expectedIssuer = `${APP_CHECK_ISSUER}${projectNumber}`;
+  if (payload.iss !== expectedIssuer) {
+    throw new FirebaseAuthError(
+      invalidCode,
+      `Invalid issuer: expected ${expectedIssuer}, got ${payload.iss}`,
+    );
+  }
+
+  if (!payload.sub || typeof payload.sub !== "string") {
+    throw new FirebaseAuthError(
+      invalidCode,
+      "Invalid subject: sub must be the app ID",
+    );
   }
 }
 
@@ -150,6 +321,169 @@ export async function verifyRS256Signature(
   );
 }
 
+/**
+ * Imports a PEM-encoded PKCS#8 RSA private key, like the `private_key` of a
+ * Google service account, for RS256 signing.
+ */
+export async function importPkcs8PrivateKey(pem: string): Promise<CryptoKey> {
+  const body = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\\n/g, "")
+    .replace(/\s/g, "");
+  try {
+    const der = base64urlDecode(body);
+    return await crypto.subtle.importKey(
+      "pkcs8",
+      der.buffer as ArrayBuffer,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+  } catch (error) {
+    throw new FirebaseAuthError(
+      "auth/invalid-credential",
+      `Invalid service account private key: ${String(error)}`,
+    );
+  }
+}
+
+/** Signs `payload` as an RS256 JWT. */
+export async function signJwt(
+  payload: Record<string, unknown>,
+  privateKey: CryptoKey,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const header = base64urlEncode(
+    encoder.encode(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+  );
+  const body = base64urlEncode(encoder.encode(JSON.stringify(payload)));
+  const data = encoder.encode(`${header}.${body}`);
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    privateKey,
+    data.buffer as ArrayBuffer,
+  );
+  return `${header}.${body}.${base64urlEncode(new Uint8Array(signature))}`;
+}
+
+/** Audience of custom tokens, which identitytoolkit exchanges for ID tokens. */
+export const CUSTOM_TOKEN_AUDIENCE =
+  "https://identitytoolkit.googleapis.com/google.identity.identitytoolkit.v1.IdentityToolkit";
+
+// Claims Firebase sets itself; custom tokens may not carry them as developer
+// claims.
+const RESERVED_CLAIMS = [
+  "acr",
+  "amr",
+  "at_hash",
+  "aud",
+  "auth_time",
+  "azp",
+  "cnf",
+  "c_hash",
+  "exp",
+  "firebase",
+  "iat",
+  "iss",
+  "jti",
+  "nbf",
+  "nonce",
+  "sub",
+];
+
+/**
+ * Rejects developer claims, on custom tokens or set as a user's custom
+ * claims, that would shadow claims Firebase sets itself.
+ */
+export function assertNoReservedClaims(claims: Record<string, unknown>) {
+  const reserved = Object.keys(claims).filter((claim) =>
+    RESERVED_CLAIMS.includes(claim),
+  );
+  if (reserved.length > 0) {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      `Developer claims use reserved names: ${reserved.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Builds the claims of a custom token for `uid`, issued by the service
+ * account and valid for the maximum of one hour.
+ */
+export function customTokenPayload({
+  serviceAccountEmail,
+  uid,
+  developerClaims,
+  tenantId,
+}: {
+  serviceAccountEmail: string;
+  uid: string;
+  developerClaims?: Record<string, unknown>;
+  tenantId?: string;
+}): Record<string, unknown> {
+  if (uid.length === 0 || uid.length > 128) {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "uid must be a non-empty string of at most 128 characters",
+    );
+  }
+  assertNoReservedClaims(developerClaims ?? {});
+
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: Record<string, unknown> = {
+    iss: serviceAccountEmail,
+    sub: serviceAccountEmail,
+    aud: CUSTOM_TOKEN_AUDIENCE,
+    iat,
+    exp: iat + 60 * 60,
+    uid,
+  };
+  if (developerClaims && Object.keys(developerClaims).length > 0) {
+    payload.claims = developerClaims;
+  }
+  if (tenantId !== undefined) {
+    payload.tenant_id = tenantId;
+  }
+  return payload;
+}
+
+// Claims Firebase adds to ID tokens and session cookies on top of the
+// reserved ones, describing the user's profile.
+const PROFILE_CLAIMS = [
+  "email",
+  "email_verified",
+  "name",
+  "phone_number",
+  "picture",
+  "user_id",
+];
+
+/**
+ * Returns the claims of a verified token that were set by the developer,
+ * i.e. the user's custom claims.
+ */
+export function extractDeveloperClaims(
+  payload: FirebaseTokenPayload,
+): Record<string, unknown> {
+  const claims: Record<string, unknown> = {};
+  for (const [claim, value] of Object.entries(payload)) {
+    if (!RESERVED_CLAIMS.includes(claim) && !PROFILE_CLAIMS.includes(claim)) {
+      claims[claim] = value;
+    }
+  }
+  return claims;
+}
+
+/** Parses custom claims as stored on a user; users without any get `{}`. */
+export function parseCustomClaims(
+  customClaims: string | undefined,
+): Record<string, unknown> {
+  return customClaims
+    ? (JSON.parse(customClaims) as Record<string, unknown>)
+    : {};
+}
+
 export function parseCacheControlMaxAge(
   headerValue: string | null,
 ): number | null {
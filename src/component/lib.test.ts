@@ -1,9 +1,32 @@
 /// <reference types="vite/client" />
 
+import type { FunctionArgs } from "convex/server";
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { api } from "./_generated/api.js";
 import { internal } from "./_generated/api.js";
-import { initConvexTest } from "./setup.test.js";
+import {
+  base64urlDecode,
+  importJwk,
+  verifyRS256Signature,
+} from "./jwtUtils.js";
+import {
+  createEmulatorToken,
+  createTestServiceAccount,
+  createTestSigner,
+  initConvexTest,
+  stubJwksFetch,
+  validClaims,
+} from "./setup.test.js";
+
+// Records a sign-in the way verifying a token does and returns the user's ID
+async function signIn(
+  t: ReturnType<typeof initConvexTest>,
+  user: FunctionArgs<typeof internal.lib._recordSignIn>["user"],
+  expiresAt = Date.now() + 3600000,
+) {
+  const doc = await t.mutation(internal.lib._recordSignIn, { user, expiresAt });
+  return doc!._id;
+}
 
 describe("component lib", () => {
   beforeEach(async () => {
@@ -11,11 +34,12 @@ describe("component lib", () => {
   });
   afterEach(() => {
     vi.useRealTimers();
+    vi.unstubAllGlobals();
   });
 
-  test("upsert user - create new user", async () => {
+  test("record sign-in - creates a new user", async () => {
     const t = initConvexTest();
-    const userId = await t.mutation(internal.lib._upsertUser, {
+    const userId = await signIn(t, {
       firebaseUid: "firebase-uid-1",
       email: "test@example.com",
       emailVerified: true,
@@ -32,15 +56,15 @@ describe("component lib", () => {
     expect(user!.firebaseUid).toBe("firebase-uid-1");
   });
 
-  test("upsert user - update existing user", async () => {
+  test("record sign-in - updates an existing user", async () => {
     const t = initConvexTest();
-    const userId1 = await t.mutation(internal.lib._upsertUser, {
+    const userId1 = await signIn(t, {
       firebaseUid: "firebase-uid-2",
       email: "original@example.com",
       displayName: "Original Name",
     });
 
-    const userId2 = await t.mutation(internal.lib._upsertUser, {
+    const userId2 = await signIn(t, {
       firebaseUid: "firebase-uid-2",
       email: "updated@example.com",
       displayName: "Updated Name",
@@ -58,7 +82,7 @@ describe("component lib", () => {
 
   test("get user by ID", async () => {
     const t = initConvexTest();
-    const userId = await t.mutation(internal.lib._upsertUser, {
+    const userId = await signIn(t, {
       firebaseUid: "firebase-uid-3",
       email: "byid@example.com",
     });
@@ -78,7 +102,7 @@ describe("component lib", () => {
 
   test("update user profile", async () => {
     const t = initConvexTest();
-    await t.mutation(internal.lib._upsertUser, {
+    await signIn(t, {
       firebaseUid: "firebase-uid-4",
       displayName: "Old Name",
     });
@@ -98,20 +122,11 @@ describe("component lib", () => {
 
   test("delete user and sessions", async () => {
     const t = initConvexTest();
-    const userId = await t.mutation(internal.lib._upsertUser, {
+    await signIn(t, {
       firebaseUid: "firebase-uid-5",
       email: "delete@example.com",
     });
 
-    // Create a session
-    await t.mutation(internal.lib._createSession, {
-      userId,
-      firebaseUid: "firebase-uid-5",
-      expiresAt: Date.now() + 3600000,
-      createdAt: Date.now(),
-      lastActiveAt: Date.now(),
-    });
-
     // Verify session exists
     const session = await t.query(api.lib.getSession, {
       firebaseUid: "firebase-uid-5",
@@ -138,19 +153,7 @@ describe("component lib", () => {
 
   test("session creation and retrieval", async () => {
     const t = initConvexTest();
-    const userId = await t.mutation(internal.lib._upsertUser, {
-      firebaseUid: "firebase-uid-6",
-    });
-
-    const now = Date.now();
-    const sessionId = await t.mutation(internal.lib._createSession, {
-      userId,
-      firebaseUid: "firebase-uid-6",
-      expiresAt: now + 3600000,
-      createdAt: now,
-      lastActiveAt: now,
-    });
-    expect(sessionId).toBeDefined();
+    await signIn(t, { firebaseUid: "firebase-uid-6" });
 
     const session = await t.query(api.lib.getSession, {
       firebaseUid: "firebase-uid-6",
@@ -161,26 +164,10 @@ describe("component lib", () => {
 
   test("invalidate all sessions", async () => {
     const t = initConvexTest();
-    const userId = await t.mutation(internal.lib._upsertUser, {
-      firebaseUid: "firebase-uid-7",
-    });
-
     const now = Date.now();
     // Create multiple sessions
-    await t.mutation(internal.lib._createSession, {
-      userId,
-      firebaseUid: "firebase-uid-7",
-      expiresAt: now + 3600000,
-      createdAt: now,
-      lastActiveAt: now,
-    });
-    await t.mutation(internal.lib._createSession, {
-      userId,
-      firebaseUid: "firebase-uid-7",
-      expiresAt: now + 7200000,
-      createdAt: now + 1000,
-      lastActiveAt: now + 1000,
-    });
+    await signIn(t, { firebaseUid: "firebase-uid-7" }, now + 3600000);
+    await signIn(t, { firebaseUid: "firebase-uid-7" }, now + 7200000);
 
     // Invalidate all
     await t.mutation(api.lib.invalidateAllSessions, {
@@ -222,4 +209,1565 @@ describe("component lib", () => {
     const cached3 = await t.query(internal.lib._getCachedPublicKeys, {});
     expect(cached3!.keys).toBe('{"keys": [{"kid": "1"}]}');
   });
+
+  test("verify token - creates user and session", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    const fetchMock = stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(
+      validClaims("my-project", { email: "signed@example.com" }),
+    );
+
+    const user = await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+    expect(user!.email).toBe("signed@example.com");
+    expect(String(fetchMock.mock.calls[0][0])).toContain("securetoken");
+
+    const session = await t.query(api.lib.getSession, {
+      firebaseUid: "user-123",
+    });
+    expect(session).not.toBeNull();
+  });
+
+  test("sessions - listed per device and revoked one by one", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const sign = (jti: string) =>
+      signer.sign(
+        validClaims("my-project", {
+          jti,
+          firebase: { sign_in_provider: "password" },
+        }),
+      );
+    const laptopToken = await sign("laptop");
+    await t.action(api.lib.verifyToken, {
+      idToken: laptopToken,
+      firebaseProjectId: "my-project",
+      device: {
+        userAgent: "Mozilla/5.0",
+        ipAddress: "203.0.113.7",
+        deviceLabel: "Chrome on macOS",
+      },
+    });
+    await t.action(api.lib.verifyToken, {
+      idToken: await sign("phone"),
+      firebaseProjectId: "my-project",
+      device: { deviceLabel: "Safari on iOS" },
+    });
+
+    const sessions = await t.query(api.lib.listSessions, {
+      firebaseUid: "user-123",
+    });
+    expect(sessions.map((session) => session.deviceLabel)).toEqual([
+      "Safari on iOS",
+      "Chrome on macOS",
+    ]);
+    expect(sessions[1]).toMatchObject({
+      userAgent: "Mozilla/5.0",
+      ipAddress: "203.0.113.7",
+      providerId: "password",
+    });
+
+    // Other users' sessions are left alone
+    await t.mutation(api.lib.revokeSession, {
+      firebaseUid: "someone-else",
+      sessionId: sessions[1]._id,
+    });
+    await t.mutation(api.lib.revokeSession, {
+      firebaseUid: "user-123",
+      sessionId: sessions[1]._id,
+    });
+    const remaining = await t.query(api.lib.listSessions, {
+      firebaseUid: "user-123",
+    });
+    expect(remaining.map((session) => session.deviceLabel)).toEqual([
+      "Safari on iOS",
+    ]);
+
+    // The revoked device's token can't open a new session, or be decoded
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: laptopToken,
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/id-token-revoked");
+    await expect(
+      t.action(api.lib.decodeAndVerifyIdToken, {
+        idToken: laptopToken,
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/id-token-revoked");
+  });
+
+  test("verify token - rejects session cookies", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const sessionCookie = await signer.sign(
+      validClaims("my-project", {}, "https://session.firebase.google.com/"),
+    );
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: sessionCookie,
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("Invalid issuer");
+  });
+
+  test("verify session cookie - session expires with the cookie", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    const fetchMock = stubJwksFetch(signer.jwks);
+    const exp = Math.floor(Date.now() / 1000) + 14 * 24 * 60 * 60;
+    const sessionCookie = await signer.sign(
+      validClaims(
+        "my-project",
+        { exp },
+        "https://session.firebase.google.com/",
+      ),
+    );
+
+    const user = await t.action(api.lib.verifySessionCookie, {
+      sessionCookie,
+      firebaseProjectId: "my-project",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+    expect(String(fetchMock.mock.calls[0][0])).toContain(
+      "sessionCookiePublicKeys",
+    );
+
+    const session = await t.query(api.lib.getSession, {
+      firebaseUid: "user-123",
+    });
+    expect(session!.expiresAt).toBe(exp * 1000);
+  });
+
+  test("public key cache - key sets are cached separately", async () => {
+    const t = initConvexTest();
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keys: '{"keys": []}',
+      fetchedAt: now,
+      expiresAt: now + 3600000,
+    });
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "sessionCookie",
+      keys: '{"keys": [{"kid": "session"}]}',
+      fetchedAt: now,
+      expiresAt: now + 3600000,
+    });
+
+    const idTokenKeys = await t.query(internal.lib._getCachedPublicKeys, {});
+    expect(idTokenKeys!.keys).toBe('{"keys": []}');
+    const sessionKeys = await t.query(internal.lib._getCachedPublicKeys, {
+      keySet: "sessionCookie",
+    });
+    expect(sessionKeys!.keys).toBe('{"keys": [{"kid": "session"}]}');
+  });
+
+  test("revoked tokens are rejected with checkRevoked", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(validClaims("my-project"));
+    await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+
+    const tokensValidAfter = await t.mutation(api.lib.revokeRefreshTokens, {
+      firebaseUid: "user-123",
+    });
+    expect(tokensValidAfter).toBeLessThanOrEqual(Date.now());
+
+    // Without checkRevoked the token is still accepted
+    await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken,
+        firebaseProjectId: "my-project",
+        checkRevoked: true,
+      }),
+    ).rejects.toThrow("auth/id-token-revoked");
+
+    // A fresh sign-in after the revocation is accepted
+    vi.advanceTimersByTime(2000);
+    const now = Math.floor(Date.now() / 1000);
+    const freshToken = await signer.sign(
+      validClaims("my-project", { iat: now, auth_time: now }),
+    );
+    const user = await t.action(api.lib.verifyToken, {
+      idToken: freshToken,
+      firebaseProjectId: "my-project",
+      checkRevoked: true,
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+  });
+
+  test("invalidate all sessions and delete user set the watermark", async () => {
+    const t = initConvexTest();
+    await signIn(t, {
+      firebaseUid: "firebase-uid-8",
+    });
+    expect(
+      await t.query(internal.lib._getTokensValidAfter, {
+        firebaseUid: "firebase-uid-8",
+      }),
+    ).toBeNull();
+
+    await t.mutation(api.lib.invalidateAllSessions, {
+      firebaseUid: "firebase-uid-8",
+    });
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "firebase-uid-8",
+    });
+    expect(user!.tokensValidAfter).toBeDefined();
+
+    vi.advanceTimersByTime(5000);
+    await t.mutation(api.lib.deleteUser, { firebaseUid: "firebase-uid-8" });
+    const watermark = await t.query(internal.lib._getTokensValidAfter, {
+      firebaseUid: "firebase-uid-8",
+    });
+    expect(watermark).toBeGreaterThan(user!.tokensValidAfter!);
+  });
+
+  test("verify token - failures carry error codes", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const expired = await signer.sign(
+      validClaims("my-project", { exp: Math.floor(Date.now() / 1000) - 60 }),
+    );
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: expired,
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/id-token-expired");
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: await signer.sign(validClaims("other-project")),
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/invalid-audience");
+  });
+
+  test("verify token - key fetch failures are reported", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("unavailable", { status: 503 })),
+    );
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: await signer.sign(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/key-fetch-failed");
+  });
+
+  test("REST actions report parsed Firebase error codes", async () => {
+    const t = initConvexTest();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              error: { code: 400, message: "EMAIL_NOT_FOUND" },
+            }),
+            { status: 400 },
+          ),
+      ),
+    );
+
+    await expect(
+      t.action(api.lib.sendPasswordResetEmail, {
+        email: "missing@example.com",
+        firebaseApiKey: "api-key",
+      }),
+    ).rejects.toThrow("auth/email-not-found");
+  });
+
+  test("emulator mode - accepts unsigned tokens without fetching keys", async () => {
+    const t = initConvexTest();
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const user = await t.action(api.lib.verifyToken, {
+      idToken: createEmulatorToken(validClaims("demo-project")),
+      firebaseProjectId: "demo-project",
+      emulatorHost: "127.0.0.1:9099",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Claims are still validated
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(validClaims("other-project")),
+        firebaseProjectId: "demo-project",
+        emulatorHost: "127.0.0.1:9099",
+      }),
+    ).rejects.toThrow("auth/invalid-audience");
+
+    // Unsigned tokens are rejected outside emulator mode
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(validClaims("demo-project")),
+        firebaseProjectId: "demo-project",
+      }),
+    ).rejects.toThrow("Unsupported algorithm: none");
+  });
+
+  test("emulator mode - REST actions target the emulator host", async () => {
+    const t = initConvexTest();
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL) => {
+      return new Response(JSON.stringify({ access_token: "token" }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await t.action(api.lib.sendPasswordResetEmail, {
+      email: "user@example.com",
+      firebaseApiKey: "fake-api-key",
+      emulatorHost: "127.0.0.1:9099",
+    });
+    await t.action(api.lib.refreshToken, {
+      refreshTokenValue: "refresh-token",
+      firebaseApiKey: "fake-api-key",
+      emulatorHost: "127.0.0.1:9099",
+    });
+    expect(String(fetchMock.mock.calls[0][0])).toBe(
+      "http://127.0.0.1:9099/identitytoolkit.googleapis.com/v1/accounts:sendOobCode?key=fake-api-key",
+    );
+    expect(String(fetchMock.mock.calls[1][0])).toBe(
+      "http://127.0.0.1:9099/securetoken.googleapis.com/v1/token?key=fake-api-key",
+    );
+  });
+
+  test("decode and verify id token - returns claims without writes", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(
+      validClaims("my-project", {
+        role: "admin",
+        firebase: {
+          sign_in_provider: "google.com",
+          identities: { "google.com": ["1234567890"] },
+        },
+      }),
+    );
+
+    const payload = await t.action(api.lib.decodeAndVerifyIdToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+    expect(payload.sub).toBe("user-123");
+    expect(payload.claims.role).toBe("admin");
+    expect(payload.firebase?.sign_in_provider).toBe("google.com");
+    expect(payload.firebase?.identities?.["google.com"]).toEqual([
+      "1234567890",
+    ]);
+
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "user-123",
+    });
+    expect(user).toBeNull();
+    const session = await t.query(api.lib.getSession, {
+      firebaseUid: "user-123",
+    });
+    expect(session).toBeNull();
+  });
+
+  test("record sign-in - upserts user, prunes expired sessions and opens a session", async () => {
+    const t = initConvexTest();
+    const now = Date.now();
+    const userId = await signIn(
+      t,
+      { firebaseUid: "firebase-uid-9" },
+      now - 1000,
+    );
+
+    const user = await t.mutation(internal.lib._recordSignIn, {
+      user: { firebaseUid: "firebase-uid-9", email: "nine@example.com" },
+      expiresAt: now + 3600000,
+    });
+    expect(user!._id).toBe(userId);
+    expect(user!.email).toBe("nine@example.com");
+
+    const sessions = await t.run((ctx) =>
+      ctx.db
+        .query("sessions")
+        .withIndex("by_tenantId_and_firebaseUid", (q) =>
+          q.eq("tenantId", undefined).eq("firebaseUid", "firebase-uid-9"),
+        )
+        .collect(),
+    );
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].expiresAt).toBe(now + 3600000);
+  });
+
+  test("record sign-in - a revoked token writes nothing", async () => {
+    const t = initConvexTest();
+    await signIn(t, {
+      firebaseUid: "firebase-uid-10",
+    });
+    await t.mutation(api.lib.deleteUser, { firebaseUid: "firebase-uid-10" });
+
+    await expect(
+      t.mutation(internal.lib._recordSignIn, {
+        user: { firebaseUid: "firebase-uid-10" },
+        expiresAt: Date.now() + 3600000,
+        revocationCheck: { authTime: Date.now() - 60000, keySet: "idToken" },
+      }),
+    ).rejects.toThrow("auth/id-token-revoked");
+
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "firebase-uid-10",
+    });
+    expect(user).toBeNull();
+  });
+
+  test("verified-token cache - repeat verifications skip the key fetch and reuse the session", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    const fetchMock = stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(validClaims("my-project"));
+
+    const first = await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+    // Drop the key cache so a second signature check would have to refetch
+    await t.run(async (ctx) => {
+      for (const row of await ctx.db.query("publicKeyCache").collect()) {
+        await ctx.db.delete(row._id);
+      }
+    });
+    const second = await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second!._id).toBe(first!._id);
+    expect(second!._creationTime).toBe(first!._creationTime);
+    const sessions = await t.run((ctx) =>
+      ctx.db
+        .query("sessions")
+        .withIndex("by_tenantId_and_firebaseUid", (q) =>
+          q.eq("tenantId", undefined).eq("firebaseUid", "user-123"),
+        )
+        .collect(),
+    );
+    expect(sessions).toHaveLength(1);
+  });
+
+  test("verified-token cache - entries are removed when sessions are revoked", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(validClaims("my-project"));
+    await t.action(api.lib.verifyToken, {
+      idToken,
+      firebaseProjectId: "my-project",
+    });
+    const countTokens = () =>
+      t.run(
+        async (ctx) => (await ctx.db.query("verifiedTokens").collect()).length,
+      );
+    expect(await countTokens()).toBe(1);
+
+    await t.mutation(api.lib.invalidateAllSessions, {
+      firebaseUid: "user-123",
+    });
+    expect(await countTokens()).toBe(0);
+  });
+
+  test("verified-token cache - expired entries are ignored", async () => {
+    const t = initConvexTest();
+    await t.mutation(internal.lib._recordSignIn, {
+      user: { firebaseUid: "user-123" },
+      expiresAt: Date.now() + 3600000,
+      tokenHash: "hash",
+    });
+    expect(
+      await t.query(internal.lib._getVerifiedToken, { tokenHash: "hash" }),
+    ).not.toBeNull();
+
+    vi.advanceTimersByTime(3600000 + 1000);
+    const cached = await t.query(internal.lib._getVerifiedToken, {
+      tokenHash: "hash",
+    });
+    expect(cached).toBeNull();
+  });
+
+  test("refresh public keys - refetches only key sets about to expire", async () => {
+    const t = initConvexTest();
+    const fetchMock = stubJwksFetch('{"keys": []}');
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "idToken",
+      keys: '{"keys": []}',
+      fetchedAt: now - 3600000,
+      expiresAt: now + 60000,
+    });
+
+    expect(await t.action(internal.lib._refreshPublicKeys, {})).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain("securetoken");
+
+    // The refreshed set is fresh again and the session cookie set was never used
+    expect(await t.action(internal.lib._refreshPublicKeys, {})).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("cleanup expired sessions - deletes in batches", async () => {
+    const t = initConvexTest();
+    const now = Date.now();
+    const userId = await t.run(async (ctx) => {
+      const userId = await ctx.db.insert("users", {
+        firebaseUid: "firebase-uid-11",
+      });
+      for (let i = 0; i < 5; i++) {
+        await ctx.db.insert("sessions", {
+          userId,
+          firebaseUid: "firebase-uid-11",
+          expiresAt: now - 1000,
+          createdAt: now - 3600000,
+          lastActiveAt: now - 3600000,
+        });
+      }
+      return userId;
+    });
+    await t.run((ctx) =>
+      ctx.db.insert("sessions", {
+        userId,
+        firebaseUid: "firebase-uid-11",
+        expiresAt: now + 3600000,
+        createdAt: now,
+        lastActiveAt: now,
+      }),
+    );
+
+    const deleted = await t.mutation(internal.lib._cleanupExpiredSessions, {
+      batchSize: 2,
+    });
+    expect(deleted).toBe(2);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const sessions = await t.run((ctx) => ctx.db.query("sessions").collect());
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].expiresAt).toBe(now + 3600000);
+  });
+
+  test("cleanup expired sessions - prunes old deleted-user watermarks", async () => {
+    const t = initConvexTest();
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("deletedUsers", {
+        firebaseUid: "deleted-long-ago",
+        tokensValidAfter: now - 15 * day,
+      });
+      await ctx.db.insert("deletedUsers", {
+        firebaseUid: "deleted-recently",
+        tokensValidAfter: now - 13 * day,
+      });
+    });
+
+    await t.mutation(internal.lib._cleanupExpiredSessions, {});
+
+    const deleted = await t.run((ctx) =>
+      ctx.db.query("deletedUsers").collect(),
+    );
+    expect(deleted.map((row) => row.firebaseUid)).toEqual(["deleted-recently"]);
+  });
+
+  test("unknown kid - refetches rotated keys before the cache expires", async () => {
+    const t = initConvexTest();
+    const oldSigner = await createTestSigner("old-kid");
+    const newSigner = await createTestSigner("new-kid");
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "idToken",
+      keys: oldSigner.jwks,
+      fetchedAt: now - 5 * 60000,
+      expiresAt: now + 3600000,
+    });
+    const fetchMock = stubJwksFetch(newSigner.jwks);
+
+    const user = await t.action(api.lib.verifyToken, {
+      idToken: await newSigner.sign(validClaims("my-project")),
+      firebaseProjectId: "my-project",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("unknown kid - refetching is rate limited", async () => {
+    const t = initConvexTest();
+    const oldSigner = await createTestSigner("old-kid");
+    const newSigner = await createTestSigner("new-kid");
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "idToken",
+      keys: oldSigner.jwks,
+      fetchedAt: now - 1000,
+      expiresAt: now + 3600000,
+    });
+    const fetchMock = stubJwksFetch(newSigner.jwks);
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: await newSigner.sign(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("No matching public key found");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("key fetch claims are single-flight", async () => {
+    const t = initConvexTest();
+    const claim = () =>
+      t.mutation(internal.lib._claimKeyFetch, { keySet: "idToken" });
+    expect(await claim()).toBe(true);
+    expect(await claim()).toBe(false);
+
+    vi.advanceTimersByTime(10 * 1000 + 1);
+    expect(await claim()).toBe(true);
+  });
+
+  test("key fetch failures fall back to stale keys and are reported", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "idToken",
+      keys: signer.jwks,
+      fetchedAt: now - 2 * 3600000,
+      expiresAt: now - 3600000,
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("unavailable", { status: 503 })),
+    );
+
+    const user = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("my-project")),
+      firebaseProjectId: "my-project",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+
+    const [health] = await t.query(api.lib.getKeyFetchHealth, {});
+    expect(health.keySet).toBe("idToken");
+    expect(health.servingStaleKeys).toBe(true);
+    expect(health.consecutiveFailures).toBe(1);
+    expect(health.lastError).toContain("503");
+
+    // Past the grace period the stale keys are no longer trusted
+    vi.advanceTimersByTime(6 * 3600000);
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: await signer.sign(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+      }),
+    ).rejects.toThrow("auth/key-fetch-failed");
+  });
+
+  test("key fetch failures back off before the next fetch", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    const now = Date.now();
+    await t.mutation(internal.lib._setCachedPublicKeys, {
+      keySet: "idToken",
+      keys: signer.jwks,
+      fetchedAt: now - 2 * 3600000,
+      expiresAt: now - 3600000,
+    });
+    const fetchMock = vi.fn(
+      async () => new Response("unavailable", { status: 503 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const verify = async () =>
+      await t.action(api.lib.verifyToken, {
+        idToken: await signer.sign(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+      });
+
+    await verify();
+    await verify();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The first retry waits a minute, the next one two
+    vi.advanceTimersByTime(60 * 1000);
+    await verify();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(60 * 1000);
+    await verify();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(60 * 1000);
+    await verify();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const [health] = await t.query(api.lib.getKeyFetchHealth, {});
+    expect(health.consecutiveFailures).toBe(3);
+  });
+
+  test("verify token - applies the claims policy", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const idToken = await signer.sign(
+      validClaims("my-project", { email_verified: false }),
+    );
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken,
+        firebaseProjectId: "my-project",
+        policy: { requireEmailVerified: true },
+      }),
+    ).rejects.toThrow("auth/email-not-verified");
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "user-123",
+    });
+    expect(user).toBeNull();
+  });
+
+  test("tenants - users with the same uid in different tenants are separate", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const tenantToken = (tenant: string) =>
+      signer.sign(
+        validClaims("my-project", {
+          firebase: { sign_in_provider: "password", tenant },
+        }),
+      );
+
+    const acme = await t.action(api.lib.verifyToken, {
+      idToken: await tenantToken("acme-1"),
+      firebaseProjectId: "my-project",
+    });
+    const globex = await t.action(api.lib.verifyToken, {
+      idToken: await tenantToken("globex-2"),
+      firebaseProjectId: "my-project",
+    });
+    expect(acme!.tenantId).toBe("acme-1");
+    expect(globex!._id).not.toBe(acme!._id);
+
+    await t.mutation(api.lib.deleteUser, {
+      firebaseUid: "user-123",
+      tenantId: "acme-1",
+    });
+    expect(
+      await t.query(api.lib.getUserByFirebaseUid, {
+        firebaseUid: "user-123",
+        tenantId: "acme-1",
+      }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getSession, {
+        firebaseUid: "user-123",
+        tenantId: "globex-2",
+      }),
+    ).not.toBeNull();
+    expect(
+      await t.query(api.lib.getUserByFirebaseUid, { firebaseUid: "user-123" }),
+    ).toBeNull();
+  });
+
+  test("tenants - only allowed tenants are accepted", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+
+    await expect(
+      t.action(api.lib.verifyToken, {
+        idToken: await signer.sign(
+          validClaims("my-project", { firebase: { tenant: "globex-2" } }),
+        ),
+        firebaseProjectId: "my-project",
+        policy: { allowedTenants: ["acme-1"] },
+      }),
+    ).rejects.toThrow("auth/tenant-not-allowed");
+  });
+
+  test("tenants - REST actions pass the tenant ID", async () => {
+    const t = initConvexTest();
+    const fetchMock = vi.fn(
+      async (_input: RequestInfo | URL, _init?: RequestInit) =>
+        new Response("{}", { status: 200 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await t.action(api.lib.sendPasswordResetEmail, {
+      email: "user@example.com",
+      firebaseApiKey: "api-key",
+      tenantId: "acme-1",
+    });
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]!.body))).toMatchObject({
+      requestType: "PASSWORD_RESET",
+      tenantId: "acme-1",
+    });
+  });
+
+  test("projects - the same uid in two trusted projects maps to two users", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const projects = ["old-project", "new-project"];
+
+    const oldUser = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("old-project")),
+      firebaseProjectId: projects,
+    });
+    const newUser = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("new-project")),
+      firebaseProjectId: projects,
+    });
+    expect(oldUser!.projectId).toBe("old-project");
+    expect(newUser!.projectId).toBe("new-project");
+    expect(newUser!._id).not.toBe(oldUser!._id);
+
+    await expect(
+      t.query(api.lib.getUserByFirebaseUid, { firebaseUid: "user-123" }),
+    ).rejects.toThrow("pass projectId");
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "user-123",
+      projectId: "new-project",
+    });
+    expect(user!._id).toBe(newUser!._id);
+  });
+
+  test("projects - users stored without a project are adopted on sign-in", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const userId = await signIn(t, {
+      firebaseUid: "user-123",
+      email: "legacy@example.com",
+    });
+
+    const user = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("my-project")),
+      firebaseProjectId: "my-project",
+    });
+    expect(user!._id).toBe(userId);
+    expect(user!.projectId).toBe("my-project");
+  });
+
+  test("projects - only the first trusted project adopts users stored without a project", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner();
+    stubJwksFetch(signer.jwks);
+    const projects = ["old-project", "new-project"];
+    const userId = await signIn(t, {
+      firebaseUid: "user-123",
+      email: "legacy@example.com",
+    });
+
+    const newUser = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("new-project")),
+      firebaseProjectId: projects,
+    });
+    expect(newUser!._id).not.toBe(userId);
+    expect(newUser!.projectId).toBe("new-project");
+    expect(newUser!.email).toBeUndefined();
+
+    const oldUser = await t.action(api.lib.verifyToken, {
+      idToken: await signer.sign(validClaims("old-project")),
+      firebaseProjectId: projects,
+    });
+    expect(oldUser!._id).toBe(userId);
+    expect(oldUser!.email).toBe("legacy@example.com");
+  });
+
+  test("verify App Check token - returns the app ID", async () => {
+    const t = initConvexTest();
+    const signer = await createTestSigner("app-check-kid");
+    const fetchMock = stubJwksFetch(signer.jwks);
+    const now = Math.floor(Date.now() / 1000);
+    const appCheckToken = await signer.sign({
+      iss: "https://firebaseappcheck.googleapis.com/123456789",
+      aud: ["projects/123456789", "projects/my-project"],
+      sub: "1:123456789:web:abc",
+      iat: now,
+      exp: now + 3600,
+    });
+
+    const result = await t.action(api.lib.verifyAppCheckToken, {
+      appCheckToken,
+      firebaseProjectNumber: "123456789",
+    });
+    expect(result.appId).toBe("1:123456789:web:abc");
+    expect(String(fetchMock.mock.calls[0][0])).toContain("firebaseappcheck");
+
+    await expect(
+      t.action(api.lib.verifyAppCheckToken, {
+        appCheckToken,
+        firebaseProjectNumber: "987654321",
+      }),
+    ).rejects.toThrow("auth/invalid-app-check-token");
+  });
+
+  test("create custom token - signs claims with the service account key", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+    const fetchMock = stubJwksFetch('{"keys": []}');
+
+    const token = await t.action(api.lib.createCustomToken, {
+      uid: "user-123",
+      developerClaims: { premium: true },
+      tenantId: "tenant-a",
+      serviceAccountEmail: serviceAccount.clientEmail,
+      serviceAccountPrivateKey: serviceAccount.privateKey,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Custom tokens carry no kid, so they are decoded by hand.
+    const [header, body, signature] = token.split(".");
+    const decode = (part: string) =>
+      JSON.parse(new TextDecoder().decode(base64urlDecode(part)));
+    expect(decode(header)).toEqual({ alg: "RS256", typ: "JWT" });
+    const publicKey = await importJwk(serviceAccount.publicJwk);
+    expect(
+      await verifyRS256Signature(
+        `${header}.${body}`,
+        base64urlDecode(signature),
+        publicKey,
+      ),
+    ).toBe(true);
+
+    const now = Math.floor(Date.now() / 1000);
+    expect(decode(body)).toEqual({
+      iss: serviceAccount.clientEmail,
+      sub: serviceAccount.clientEmail,
+      aud: "https://identitytoolkit.googleapis.com/google.identity.identitytoolkit.v1.IdentityToolkit",
+      iat: now,
+      exp: now + 3600,
+      uid: "user-123",
+      claims: { premium: true },
+      tenant_id: "tenant-a",
+    });
+  });
+
+  test("create custom token - rejects reserved claims and bad keys", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+
+    await expect(
+      t.action(api.lib.createCustomToken, {
+        uid: "user-123",
+        developerClaims: { premium: true, firebase: {} },
+        serviceAccountEmail: serviceAccount.clientEmail,
+        serviceAccountPrivateKey: serviceAccount.privateKey,
+      }),
+    ).rejects.toThrow("reserved names: firebase");
+    await expect(
+      t.action(api.lib.createCustomToken, {
+        uid: "x".repeat(129),
+        serviceAccountEmail: serviceAccount.clientEmail,
+        serviceAccountPrivateKey: serviceAccount.privateKey,
+      }),
+    ).rejects.toThrow("auth/argument-error");
+    await expect(
+      t.action(api.lib.createCustomToken, {
+        uid: "user-123",
+        serviceAccountEmail: serviceAccount.clientEmail,
+        serviceAccountPrivateKey: "not a key",
+      }),
+    ).rejects.toThrow("auth/invalid-credential");
+  });
+
+  test("custom claims - verified tokens store the developer claims", async () => {
+    const t = initConvexTest();
+    const verify = (claims: Record<string, unknown>) =>
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(
+          validClaims("my-project", {
+            email: "user@example.com",
+            user_id: "user-123",
+            firebase: { sign_in_provider: "password" },
+            ...claims,
+          }),
+        ),
+        firebaseProjectId: "my-project",
+        emulatorHost: "127.0.0.1:9099",
+      });
+
+    await verify({ role: "editor", org: { id: 7 } });
+    expect(
+      await t.query(api.lib.getCustomClaims, { firebaseUid: "user-123" }),
+    ).toEqual({ role: "editor", org: { id: 7 } });
+
+    // Claims removed in Firebase disappear with the next token
+    await verify({});
+    expect(
+      await t.query(api.lib.getCustomClaims, { firebaseUid: "user-123" }),
+    ).toEqual({});
+    expect(
+      await t.query(api.lib.getCustomClaims, { firebaseUid: "unknown" }),
+    ).toBeNull();
+  });
+
+  test("roles - granted roles confer their permissions", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("users", { firebaseUid: "user-123" });
+    });
+    await t.mutation(api.lib.defineRole, {
+      name: "editor",
+      permissions: ["articles:read", "articles:edit"],
+    });
+    await t.mutation(api.lib.defineRole, {
+      name: "viewer",
+      permissions: ["articles:read"],
+    });
+
+    await t.mutation(api.lib.grantRole, {
+      firebaseUid: "user-123",
+      role: "editor",
+    });
+    await t.mutation(api.lib.grantRole, {
+      firebaseUid: "user-123",
+      role: "viewer",
+    });
+    expect(
+      await t.query(api.lib.getUserRoles, { firebaseUid: "user-123" }),
+    ).toEqual({
+      roles: ["editor", "viewer"],
+      permissions: ["articles:read", "articles:edit"],
+    });
+    await expect(
+      t.mutation(api.lib.grantRole, { firebaseUid: "user-123", role: "owner" }),
+    ).rejects.toThrow("auth/role-not-found");
+
+    await t.mutation(api.lib.revokeRole, {
+      firebaseUid: "user-123",
+      role: "viewer",
+    });
+    await t.mutation(api.lib.deleteRole, { name: "editor" });
+    expect(
+      await t.query(api.lib.getUserRoles, { firebaseUid: "user-123" }),
+    ).toEqual({ roles: [], permissions: [] });
+  });
+
+  test("roles - the roles claim is mirrored on sign-in", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.defineRole, {
+      name: "admin",
+      permissions: ["users:manage"],
+    });
+    const verify = (roles: unknown) =>
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(validClaims("my-project", { roles })),
+        firebaseProjectId: "my-project",
+        emulatorHost: "127.0.0.1:9099",
+        rolesClaim: "roles",
+      });
+    const getRoles = async () =>
+      (await t.query(api.lib.getUserRoles, { firebaseUid: "user-123" })).roles;
+
+    await verify(["admin", "beta-tester"]);
+    expect(await getRoles()).toEqual(["admin", "beta-tester"]);
+    expect(
+      (await t.query(api.lib.getUserRoles, { firebaseUid: "user-123" }))
+        .permissions,
+    ).toEqual(["users:manage"]);
+
+    // Granted roles outlive the claim; mirrored ones follow it
+    await t.mutation(api.lib.grantRole, {
+      firebaseUid: "user-123",
+      role: "admin",
+    });
+    await verify("support");
+    expect((await getRoles()).sort()).toEqual(["admin", "support"]);
+  });
+
+  test("disabled users - are signed out and rejected until enabled", async () => {
+    const t = initConvexTest();
+    const verify = () =>
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+        emulatorHost: "127.0.0.1:9099",
+      });
+    await verify();
+    expect(
+      await t.query(api.lib.getSession, { firebaseUid: "user-123" }),
+    ).not.toBeNull();
+
+    await t.mutation(api.lib.disableUser, { firebaseUid: "user-123" });
+    const sessions = await t.run(
+      async (ctx) => await ctx.db.query("sessions").collect(),
+    );
+    expect(sessions).toHaveLength(0);
+    await expect(verify()).rejects.toThrow("auth/user-disabled");
+    await expect(
+      t.query(api.lib.getSession, { firebaseUid: "user-123" }),
+    ).rejects.toThrow("auth/user-disabled");
+
+    await t.mutation(api.lib.enableUser, { firebaseUid: "user-123" });
+    const user = await verify();
+    expect(user!.disabled).toBe(false);
+    await expect(
+      t.mutation(api.lib.disableUser, { firebaseUid: "unknown" }),
+    ).rejects.toThrow("auth/user-not-found");
+  });
+
+  test("identities - synced from each verified token", async () => {
+    const t = initConvexTest();
+    const verify = (identities: Record<string, string[]>) =>
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(
+          validClaims("demo-project", {
+            firebase: { sign_in_provider: "password", identities },
+          }),
+        ),
+        firebaseProjectId: "demo-project",
+        emulatorHost: "127.0.0.1:9099",
+      });
+
+    await verify({ email: ["user@example.com"] });
+    await verify({
+      email: ["user@example.com"],
+      "google.com": ["1234567890"],
+    });
+    expect(
+      await t.query(api.lib.listIdentities, { firebaseUid: "user-123" }),
+    ).toEqual([
+      { providerId: "email", providerUid: "user@example.com" },
+      { providerId: "google.com", providerUid: "1234567890" },
+    ]);
+    const user = await t.query(api.lib.getUserByIdentity, {
+      providerId: "google.com",
+      providerUid: "1234567890",
+    });
+    expect(user!.firebaseUid).toBe("user-123");
+    expect(
+      await t.query(api.lib.getUserByIdentity, {
+        providerId: "google.com",
+        providerUid: "1234567890",
+        tenantId: "tenant-a",
+      }),
+    ).toBeNull();
+
+    // Unlinking a provider drops its identity
+    await verify({ "google.com": ["1234567890"] });
+    expect(
+      await t.query(api.lib.listIdentities, { firebaseUid: "user-123" }),
+    ).toEqual([{ providerId: "google.com", providerUid: "1234567890" }]);
+
+    await t.mutation(api.lib.deleteUser, { firebaseUid: "user-123" });
+    expect(
+      await t.query(api.lib.getUserByIdentity, {
+        providerId: "google.com",
+        providerUid: "1234567890",
+      }),
+    ).toBeNull();
+    const remaining = await t.run((ctx) =>
+      ctx.db.query("identities").collect(),
+    );
+    expect(remaining).toEqual([]);
+  });
+
+  test("list users - pages through users matching the filters", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("users", {
+        firebaseUid: "anonymous",
+        providerId: "anonymous",
+        isAnonymous: true,
+        lastSignInTime: 1000,
+      });
+      await ctx.db.insert("users", {
+        firebaseUid: "disabled",
+        providerId: "password",
+        disabled: true,
+        lastSignInTime: 2000,
+      });
+      await ctx.db.insert("users", {
+        firebaseUid: "verified",
+        providerId: "google.com",
+        emailVerified: true,
+        lastSignInTime: 3000,
+      });
+      await ctx.db.insert("users", { firebaseUid: "never-signed-in" });
+      await ctx.db.insert("users", {
+        firebaseUid: "tenant-user",
+        tenantId: "tenant-a",
+      });
+    });
+    const list = async (filters: Record<string, unknown> = {}) =>
+      (
+        await t.query(api.lib.listUsers, {
+          paginationOpts: { numItems: 10, cursor: null },
+          ...filters,
+        })
+      ).page.map((user) => user.firebaseUid);
+
+    expect(await list()).toEqual([
+      "anonymous",
+      "disabled",
+      "never-signed-in",
+      "verified",
+    ]);
+    expect(await list({ tenantId: "tenant-a" })).toEqual(["tenant-user"]);
+    expect(await list({ isAnonymous: false })).toEqual([
+      "disabled",
+      "never-signed-in",
+      "verified",
+    ]);
+    expect(await list({ disabled: true })).toEqual(["disabled"]);
+    expect(await list({ emailVerified: true })).toEqual(["verified"]);
+    expect(await list({ providerId: "password" })).toEqual(["disabled"]);
+    expect(await list({ signedInAfter: 1500 })).toEqual([
+      "disabled",
+      "verified",
+    ]);
+    expect(await list({ signedInBefore: 2500, isAnonymous: false })).toEqual([
+      "disabled",
+    ]);
+
+    const firstPage = await t.query(api.lib.listUsers, {
+      paginationOpts: { numItems: 3, cursor: null },
+    });
+    expect(firstPage.isDone).toBe(false);
+    const secondPage = await t.query(api.lib.listUsers, {
+      paginationOpts: { numItems: 3, cursor: firstPage.continueCursor },
+    });
+    expect(secondPage.page.map((user) => user.firebaseUid)).toEqual([
+      "verified",
+    ]);
+
+    // Pages are full even when most users don't match
+    const firstMatches = await t.query(api.lib.listUsers, {
+      paginationOpts: { numItems: 1, cursor: null },
+      providerId: "google.com",
+      signedInAfter: 0,
+    });
+    expect(firstMatches.page.map((user) => user.firebaseUid)).toEqual([
+      "verified",
+    ]);
+    expect(firstMatches.isDone).toBe(true);
+    const disabledPage = await t.query(api.lib.listUsers, {
+      paginationOpts: { numItems: 1, cursor: null },
+      isAnonymous: false,
+    });
+    expect(disabledPage.page.map((user) => user.firebaseUid)).toEqual([
+      "disabled",
+    ]);
+    expect(disabledPage.isDone).toBe(false);
+    const nextPage = await t.query(api.lib.listUsers, {
+      paginationOpts: { numItems: 5, cursor: disabledPage.continueCursor },
+      isAnonymous: false,
+    });
+    expect(nextPage.page.map((user) => user.firebaseUid)).toEqual([
+      "never-signed-in",
+      "verified",
+    ]);
+    expect(nextPage.isDone).toBe(true);
+  });
+
+  test("find users - by email, phone number and search", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("users", {
+        firebaseUid: "ada",
+        email: "ada@example.com",
+        displayName: "Ada Lovelace",
+        phoneNumber: "+15555550100",
+      });
+      await ctx.db.insert("users", {
+        firebaseUid: "grace",
+        email: "grace@navy.example",
+        displayName: "Grace Hopper",
+      });
+      await ctx.db.insert("users", {
+        firebaseUid: "tenant-ada",
+        tenantId: "tenant-a",
+        email: "ada@example.com",
+        displayName: "Ada",
+      });
+    });
+
+    const byEmail = await t.query(api.lib.getUserByEmail, {
+      email: "ada@example.com",
+    });
+    expect(byEmail!.firebaseUid).toBe("ada");
+    const inTenant = await t.query(api.lib.getUserByEmail, {
+      email: "ada@example.com",
+      tenantId: "tenant-a",
+    });
+    expect(inTenant!.firebaseUid).toBe("tenant-ada");
+    const byPhone = await t.query(api.lib.getUserByPhoneNumber, {
+      phoneNumber: "+15555550100",
+    });
+    expect(byPhone!.firebaseUid).toBe("ada");
+    expect(
+      await t.query(api.lib.getUserByPhoneNumber, { phoneNumber: "+1" }),
+    ).toBeNull();
+
+    await t.run(async (ctx) => {
+      await ctx.db.insert("users", {
+        firebaseUid: "other-grace",
+        projectId: "other-project",
+        email: "grace@navy.example",
+        displayName: "Admiral",
+      });
+    });
+    await expect(
+      t.query(api.lib.getUserByEmail, { email: "grace@navy.example" }),
+    ).rejects.toThrow("auth/argument-error");
+    const inProject = await t.query(api.lib.getUserByEmail, {
+      email: "grace@navy.example",
+      projectId: "other-project",
+    });
+    expect(inProject!.firebaseUid).toBe("other-grace");
+
+    const search = async (query: string) =>
+      (await t.query(api.lib.searchUsers, { query })).map(
+        (user) => user.firebaseUid,
+      );
+    expect(await search("hopper")).toEqual(["grace"]);
+    expect(await search("ada")).toEqual(["ada"]);
+  });
+
+  test("admin get user - reuses the access token and stores the user", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+    const tokenUrl = "http://127.0.0.1:8085/token";
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) =>
+      String(input) === tokenUrl
+        ? Response.json({ access_token: "access-token", expires_in: 3600 })
+        : Response.json({
+            users: [
+              {
+                localId: "user-123",
+                email: "user@example.com",
+                emailVerified: true,
+                disabled: false,
+                customAttributes: '{"admin":true}',
+                lastLoginAt: "1700000000000",
+              },
+            ],
+          }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const args = {
+      firebaseProjectId: "my-project",
+      serviceAccountEmail: serviceAccount.clientEmail,
+      serviceAccountPrivateKey: serviceAccount.privateKey,
+      oauthTokenUrl: tokenUrl,
+      firebaseUid: "user-123",
+    };
+
+    const user = await t.action(api.lib.adminGetUser, args);
+    expect(user).toMatchObject({
+      firebaseUid: "user-123",
+      projectId: "my-project",
+      email: "user@example.com",
+      emailVerified: true,
+      disabled: false,
+      customClaims: '{"admin":true}',
+      lastSignInTime: 1700000000000,
+    });
+    await t.action(api.lib.adminGetUser, args);
+
+    const lookupUrl =
+      "https://identitytoolkit.googleapis.com/v1/projects/my-project/accounts:lookup";
+    expect(fetchMock.mock.calls.map(([input]) => String(input))).toEqual([
+      tokenUrl,
+      lookupUrl,
+      lookupUrl,
+    ]);
+    const [, tokenRequest] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    const form = new URLSearchParams(tokenRequest.body as string);
+    expect(form.get("grant_type")).toBe(
+      "urn:ietf:params:oauth:grant-type:jwt-bearer",
+    );
+    const [header, body, signature] = form.get("assertion")!.split(".");
+    const publicKey = await importJwk(serviceAccount.publicJwk);
+    expect(
+      await verifyRS256Signature(
+        `${header}.${body}`,
+        base64urlDecode(signature),
+        publicKey,
+      ),
+    ).toBe(true);
+    expect(
+      JSON.parse(new TextDecoder().decode(base64urlDecode(body))),
+    ).toMatchObject({ iss: serviceAccount.clientEmail, aud: tokenUrl });
+    const [, lookupRequest] = fetchMock.mock.calls[1] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(lookupRequest.headers).toMatchObject({
+      Authorization: "Bearer access-token",
+    });
+  });
+
+  test("admin update user - updates Firebase and resyncs the stored user", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+    await t.run(async (ctx) => {
+      const userId = await ctx.db.insert("users", {
+        firebaseUid: "user-123",
+        projectId: "my-project",
+        email: "old@example.com",
+        displayName: "Old Name",
+        phoneNumber: "+15555550100",
+      });
+      await ctx.db.insert("sessions", {
+        userId,
+        firebaseUid: "user-123",
+        expiresAt: Date.now() + 3600000,
+        createdAt: Date.now(),
+        lastActiveAt: Date.now(),
+      });
+    });
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).endsWith("accounts:lookup")
+        ? Response.json({
+            users: [
+              {
+                localId: "user-123",
+                email: "new@example.com",
+                disabled: true,
+              },
+            ],
+          })
+        : Response.json({ localId: "user-123" }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const account = {
+      firebaseProjectId: "my-project",
+      serviceAccountEmail: serviceAccount.clientEmail,
+      serviceAccountPrivateKey: serviceAccount.privateKey,
+      emulatorHost: "127.0.0.1:9099",
+      firebaseUid: "user-123",
+    };
+
+    const user = await t.action(api.lib.adminUpdateUser, {
+      ...account,
+      email: "new@example.com",
+      disabled: true,
+      phoneNumber: null,
+    });
+    expect(user!.email).toBe("new@example.com");
+    expect(user!.disabled).toBe(true);
+    expect(user!.phoneNumber).toBeUndefined();
+    expect(user!.displayName).toBeUndefined();
+    // Disabling revokes the user's sessions and tokens, as disableUser does
+    expect(user!.tokensValidAfter).toBeDefined();
+    expect(
+      await t.run(async (ctx) => await ctx.db.query("sessions").collect()),
+    ).toEqual([]);
+
+    const [updateUrl, updateRequest] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(updateUrl).toBe(
+      "http://127.0.0.1:9099/identitytoolkit.googleapis.com/v1/projects/my-project/accounts:update",
+    );
+    expect(updateRequest.headers).toMatchObject({
+      Authorization: "Bearer owner",
+    });
+    expect(JSON.parse(updateRequest.body as string)).toEqual({
+      localId: "user-123",
+      email: "new@example.com",
+      disableUser: true,
+      deleteProvider: ["phone"],
+    });
+
+    await expect(
+      t.action(api.lib.adminSetCustomClaims, {
+        ...account,
+        customClaims: { sub: "someone-else" },
+      }),
+    ).rejects.toThrow("reserved names: sub");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("admin get user - keeps users disabled locally disabled", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          users: [{ localId: "user-123", email: "user@example.com" }],
+        }),
+      ),
+    );
+    const verify = () =>
+      t.action(api.lib.verifyToken, {
+        idToken: createEmulatorToken(validClaims("my-project")),
+        firebaseProjectId: "my-project",
+        emulatorHost: "127.0.0.1:9099",
+      });
+    await verify();
+    await t.mutation(api.lib.disableUser, { firebaseUid: "user-123" });
+
+    const user = await t.action(api.lib.adminGetUser, {
+      firebaseProjectId: "my-project",
+      serviceAccountEmail: serviceAccount.clientEmail,
+      serviceAccountPrivateKey: serviceAccount.privateKey,
+      emulatorHost: "127.0.0.1:9099",
+      firebaseUid: "user-123",
+    });
+    expect(user!.email).toBe("user@example.com");
+    expect(user!.disabled).toBe(true);
+    await expect(verify()).rejects.toThrow("auth/user-disabled");
+  });
+
+  test("admin delete user - removes the stored user even if Firebase has none", async () => {
+    const t = initConvexTest();
+    const serviceAccount = await createTestServiceAccount();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("users", {
+        firebaseUid: "user-123",
+        projectId: "my-project",
+      });
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json(
+          { error: { message: "USER_NOT_FOUND" } },
+          { status: 400 },
+        ),
+      ),
+    );
+
+    await t.action(api.lib.adminDeleteUser, {
+      firebaseProjectId: "my-project",
+      serviceAccountEmail: serviceAccount.clientEmail,
+      serviceAccountPrivateKey: serviceAccount.privateKey,
+      emulatorHost: "127.0.0.1:9099",
+      firebaseUid: "user-123",
+    });
+    const user = await t.query(api.lib.getUserByFirebaseUid, {
+      firebaseUid: "user-123",
+    });
+    expect(user).toBeNull();
+  });
 });
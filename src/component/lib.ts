@@ -1,31 +1,161 @@
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import type { FunctionHandle } from "convex/server";
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel.js";
+import type { Infer, ObjectType } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import type { ActionCtx, MutationCtx, QueryCtx } from "./_generated/server.js";
 import {
   action,
+  internalAction,
   internalMutation,
   internalQuery,
   mutation,
   query,
 } from "./_generated/server.js";
-import { internal } from "./_generated/api.js";
+import { api, internal } from "./_generated/api.js";
 import {
   parseJwt,
   validateClaims,
+  validateAppCheckClaims,
   importJwk,
   verifyRS256Signature,
   parseCacheControlMaxAge,
+  hashToken,
+  importPkcs8PrivateKey,
+  signJwt,
+  customTokenPayload,
+  assertNoReservedClaims,
+  extractDeveloperClaims,
+  parseCustomClaims,
+  ID_TOKEN_ISSUER,
+  SESSION_COOKIE_ISSUER,
+} from "./jwtUtils.js";
+import type {
+  AppCheckTokenPayload,
+  ClaimsPolicy,
+  FirebaseTokenPayload,
+  ParsedJwt,
 } from "./jwtUtils.js";
+import {
+  FirebaseAuthError,
+  getErrorCode,
+  getErrorMessage,
+  parseFirebaseRestError,
+} from "./errors.js";
+import type { FirebaseAuthErrorCode } from "./errors.js";
 
 const GOOGLE_JWK_URL =
   "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+const SESSION_COOKIE_JWK_URL =
+  "https://identitytoolkit.googleapis.com/v1/sessionCookiePublicKeys";
+const APP_CHECK_JWK_URL = "https://firebaseappcheck.googleapis.com/v1/jwks";
+
+// ID tokens and session cookies are signed by different Google key sets and
+// carry different issuers, so each key set is cached separately.
+const authKeySetValidator = v.union(
+  v.literal("idToken"),
+  v.literal("sessionCookie"),
+);
+type AuthKeySet = typeof authKeySetValidator.type;
+
+// App Check tokens are signed by a key set of their own.
+const publicKeySetValidator = v.union(
+  authKeySetValidator,
+  v.literal("appCheck"),
+);
+type PublicKeySet = typeof publicKeySetValidator.type;
+
+const PUBLIC_KEY_URLS: Record<PublicKeySet, string> = {
+  idToken: GOOGLE_JWK_URL,
+  sessionCookie: SESSION_COOKIE_JWK_URL,
+  appCheck: APP_CHECK_JWK_URL,
+};
+
+const ISSUER_PREFIXES: Record<AuthKeySet, string> = {
+  idToken: ID_TOKEN_ISSUER,
+  sessionCookie: SESSION_COOKIE_ISSUER,
+};
+
+const INVALID_TOKEN_CODES: Record<PublicKeySet, FirebaseAuthErrorCode> = {
+  idToken: "auth/invalid-id-token",
+  sessionCookie: "auth/invalid-session-cookie",
+  appCheck: "auth/invalid-app-check-token",
+};
+
+const REVOKED_TOKEN_CODES: Record<AuthKeySet, FirebaseAuthErrorCode> = {
+  idToken: "auth/id-token-revoked",
+  sessionCookie: "auth/session-cookie-revoked",
+};
 
 const FIREBASE_API_BASE = "https://identitytoolkit.googleapis.com/v1";
 const FIREBASE_TOKEN_URL = "https://securetoken.googleapis.com/v1/token";
+const GOOGLE_OAUTH_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const SERVICE_ACCOUNT_SCOPES = [
+  "https://www.googleapis.com/auth/cloud-platform",
+  "https://www.googleapis.com/auth/identitytoolkit",
+].join(" ");
+
+// Cached key sets expiring within this window are refreshed ahead of time
+const KEY_REFRESH_WINDOW_MS = 15 * 60 * 1000;
+
+// An unknown kid triggers a refetch at most this often per key set
+const UNKNOWN_KID_REFETCH_INTERVAL_MS = 60 * 1000;
+
+// A refetch claimed by one verification blocks others for at most this long
+const KEY_FETCH_LOCK_MS = 10 * 1000;
+
+// After failed fetches, the next one waits UNKNOWN_KID_REFETCH_INTERVAL_MS,
+// doubling with each further failure up to this long
+const KEY_FETCH_MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// Expired keys keep being served this long while Google can't be reached
+const STALE_KEY_GRACE_MS = 6 * 60 * 60 * 1000;
+
+// Rows deleted per cleanup transaction
+const CLEANUP_BATCH_SIZE = 256;
+
+// Watermarks of deleted users are kept this long, the lifetime of the
+// longest-lived credential they reject: a 14-day session cookie
+const DELETED_USER_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Users returned by `searchUsers` unless a limit is given
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// Cached access tokens expiring within this window are replaced
+const ACCESS_TOKEN_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+// Firebase's limit on the serialized size of a user's custom claims
+const MAX_CUSTOM_CLAIMS_LENGTH = 1000;
+
+// The Auth Emulator serves both REST APIs under their production host names,
+// e.g. http://127.0.0.1:9099/identitytoolkit.googleapis.com/v1.
+function firebaseApiBase(emulatorHost: string | undefined): string {
+  return emulatorHost
+    ? `http://${emulatorHost}/identitytoolkit.googleapis.com/v1`
+    : FIREBASE_API_BASE;
+}
+
+function firebaseTokenUrl(emulatorHost: string | undefined): string {
+  return emulatorHost
+    ? `http://${emulatorHost}/securetoken.googleapis.com/v1/token`
+    : FIREBASE_TOKEN_URL;
+}
 
 // ─── User validators ───────────────────────────────────────────────────────
 
-const userFieldsValidator = {
+// Identifies a user: Firebase UIDs are unique per project and tenant.
+const userKeyArgs = {
   firebaseUid: v.string(),
+  tenantId: v.optional(v.string()),
+  projectId: v.optional(v.string()),
+};
+type UserKey = ObjectType<typeof userKeyArgs>;
+
+const userFieldsValidator = {
+  ...userKeyArgs,
   email: v.optional(v.string()),
   emailVerified: v.optional(v.boolean()),
   displayName: v.optional(v.string()),
@@ -36,6 +166,7 @@ const userFieldsValidator = {
   disabled: v.optional(v.boolean()),
   lastSignInTime: v.optional(v.number()),
   customClaims: v.optional(v.string()),
+  tokensValidAfter: v.optional(v.number()),
 };
 
 const userObjectValidator = v.object({
@@ -50,6 +181,8 @@ type UserReturn = {
   _id: string;
   _creationTime: number;
   firebaseUid: string;
+  tenantId?: string;
+  projectId?: string;
   email?: string;
   emailVerified?: boolean;
   displayName?: string;
@@ -60,130 +193,711 @@ type UserReturn = {
   disabled?: boolean;
   lastSignInTime?: number;
   customClaims?: string;
+  tokensValidAfter?: number;
 } | null;
 
-const sessionReturnValidator = v.union(
+// A sign-in also reports why its `anonymousIdToken` was rejected, if it was
+const signInReturnValidator = v.union(
   v.null(),
   v.object({
     _id: v.string(),
     _creationTime: v.number(),
-    userId: v.id("users"),
-    firebaseUid: v.string(),
-    expiresAt: v.number(),
-    createdAt: v.number(),
-    lastActiveAt: v.number(),
+    ...userFieldsValidator,
+    anonymousIdTokenError: v.optional(v.string()),
   }),
 );
 
+type SignInReturn =
+  | (NonNullable<UserReturn> & { anonymousIdTokenError?: string })
+  | null;
+
+// The device a session was opened on
+const deviceValidator = v.object({
+  userAgent: v.optional(v.string()),
+  ipAddress: v.optional(v.string()),
+  deviceLabel: v.optional(v.string()),
+});
+type Device = Infer<typeof deviceValidator>;
+
+const sessionValidator = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  firebaseUid: v.string(),
+  tenantId: v.optional(v.string()),
+  expiresAt: v.number(),
+  createdAt: v.number(),
+  lastActiveAt: v.number(),
+  ...deviceValidator.fields,
+  providerId: v.optional(v.string()),
+});
+
+const sessionReturnValidator = v.union(v.null(), sessionValidator);
+
+// One trusted Firebase project ID, or several when tokens from multiple
+// projects are accepted.
+const projectIdsValidator = v.union(v.string(), v.array(v.string()));
+
+// Mirrors `ClaimsPolicy` in jwtUtils.ts.
+const claimsPolicyValidator = v.object({
+  clockSkewSeconds: v.optional(v.number()),
+  maxTokenAgeSeconds: v.optional(v.number()),
+  requireEmailVerified: v.optional(v.boolean()),
+  allowedSignInProviders: v.optional(v.array(v.string())),
+  allowedTenants: v.optional(v.array(v.string())),
+  requiredClaims: v.optional(v.record(v.string(), v.any())),
+});
+
+// Function handles of host-app mutations scheduled when users' accounts change
+const hooksValidator = v.object({
+  onUserCreated: v.optional(v.string()),
+  onUserUpdated: v.optional(v.string()),
+  onUserDeleted: v.optional(v.string()),
+  onSignIn: v.optional(v.string()),
+  onAnonymousUpgraded: v.optional(v.string()),
+  onAnonymousMerged: v.optional(v.string()),
+});
+type Hooks = Infer<typeof hooksValidator>;
+
 // ─── Token Verification ────────────────────────────────────────────────────
 
 export const verifyToken = action({
   args: {
     idToken: v.string(),
-    firebaseProjectId: v.string(),
+    firebaseProjectId: projectIdsValidator,
+    checkRevoked: v.optional(v.boolean()),
+    emulatorHost: v.optional(v.string()),
+    policy: v.optional(claimsPolicyValidator),
+    rolesClaim: v.optional(v.string()),
+    hooks: v.optional(hooksValidator),
+    // The ID token of the anonymous user who signed in with this account
+    anonymousIdToken: v.optional(v.string()),
+    device: v.optional(deviceValidator),
+  },
+  returns: signInReturnValidator,
+  handler: async (ctx, args): Promise<SignInReturn> => {
+    const verified = await verifyFirebaseJwt(
+      ctx,
+      args.idToken,
+      "idToken",
+      args,
+    );
+    let anonymousUid: string | undefined;
+    let anonymousIdTokenError: string | undefined;
+    if (args.anonymousIdToken) {
+      try {
+        anonymousUid = await verifyAnonymousUid(
+          ctx,
+          args.anonymousIdToken,
+          verified,
+          args,
+        );
+      } catch (error) {
+        // A rejected anonymous token only skips onAnonymousMerged
+        if (!(error instanceof FirebaseAuthError)) throw error;
+        anonymousIdTokenError = error.data.code;
+      }
+    }
+    const user = await recordSignIn(ctx, verified, "idToken", {
+      ...args,
+      anonymousUid,
+    });
+    return user && anonymousIdTokenError
+      ? { ...user, anonymousIdTokenError }
+      : user;
+  },
+});
+
+export const verifySessionCookie = action({
+  args: {
+    sessionCookie: v.string(),
+    firebaseProjectId: projectIdsValidator,
+    checkRevoked: v.optional(v.boolean()),
+    emulatorHost: v.optional(v.string()),
+    policy: v.optional(claimsPolicyValidator),
+    rolesClaim: v.optional(v.string()),
+    hooks: v.optional(hooksValidator),
+    device: v.optional(deviceValidator),
   },
   returns: userReturnValidator,
   handler: async (ctx, args): Promise<UserReturn> => {
-    const { idToken, firebaseProjectId } = args;
+    const verified = await verifyFirebaseJwt(
+      ctx,
+      args.sessionCookie,
+      "sessionCookie",
+      args,
+    );
+    return await recordSignIn(ctx, verified, "sessionCookie", args);
+  },
+});
+
+// The decoded payload of an ID token. Validators can't mix named fields with
+// arbitrary ones, so the other claims, custom claims included, are returned
+// in `claims`.
+const tokenPayloadValidator = v.object({
+  iss: v.string(),
+  aud: v.string(),
+  auth_time: v.number(),
+  sub: v.string(),
+  iat: v.number(),
+  exp: v.number(),
+  email: v.optional(v.string()),
+  email_verified: v.optional(v.boolean()),
+  name: v.optional(v.string()),
+  picture: v.optional(v.string()),
+  phone_number: v.optional(v.string()),
+  firebase: v.optional(
+    v.object({
+      sign_in_provider: v.optional(v.string()),
+      sign_in_second_factor: v.optional(v.string()),
+      second_factor_identifier: v.optional(v.string()),
+      tenant: v.optional(v.string()),
+      identities: v.optional(v.record(v.string(), v.array(v.string()))),
+    }),
+  ),
+  claims: v.record(v.string(), v.any()),
+});
 
-    // 1. Parse JWT
-    const parsed = parseJwt(idToken);
+function splitTokenPayload(
+  payload: FirebaseTokenPayload,
+): Infer<typeof tokenPayloadValidator> {
+  const {
+    iss,
+    aud,
+    auth_time,
+    sub,
+    iat,
+    exp,
+    email,
+    email_verified,
+    name,
+    picture,
+    phone_number,
+    firebase,
+    ...claims
+  } = payload;
+  return {
+    iss,
+    aud,
+    auth_time,
+    sub,
+    iat,
+    exp,
+    email,
+    email_verified,
+    name,
+    picture,
+    phone_number,
+    firebase: firebase && {
+      sign_in_provider: firebase.sign_in_provider,
+      sign_in_second_factor: firebase.sign_in_second_factor,
+      second_factor_identifier: firebase.second_factor_identifier,
+      tenant: firebase.tenant,
+      identities: firebase.identities,
+    },
+    claims,
+  };
+}
 
-    // 2. Validate header algorithm
-    if (parsed.header.alg !== "RS256") {
-      throw new Error(`Unsupported algorithm: ${parsed.header.alg}`);
+// Verifies an ID token without touching `users` or `sessions`, so it can run
+// on hot paths. Returns the decoded payload, including custom claims.
+export const decodeAndVerifyIdToken = action({
+  args: {
+    idToken: v.string(),
+    firebaseProjectId: projectIdsValidator,
+    checkRevoked: v.optional(v.boolean()),
+    emulatorHost: v.optional(v.string()),
+    policy: v.optional(claimsPolicyValidator),
+  },
+  returns: tokenPayloadValidator,
+  handler: async (ctx, args): Promise<Infer<typeof tokenPayloadValidator>> => {
+    const { payload } = await verifyFirebaseJwt(
+      ctx,
+      args.idToken,
+      "idToken",
+      args,
+    );
+    if (args.checkRevoked) {
+      await assertNotRevoked(ctx, payload, "idToken");
     }
+    return splitTokenPayload(payload);
+  },
+});
 
-    // 3. Get public keys (cached or fetched)
-    let cachedKeys = (await ctx.runQuery(
-      internal.lib._getCachedPublicKeys,
-      {},
-    )) as { keys: string; fetchedAt: number; expiresAt: number } | null;
+/**
+ * Verifies a Firebase App Check token issued for the project and returns the
+ * ID of the app it attests.
+ */
+export const verifyAppCheckToken = action({
+  args: {
+    appCheckToken: v.string(),
+    firebaseProjectNumber: v.string(),
+  },
+  returns: v.object({ appId: v.string() }),
+  handler: async (ctx, args) => {
+    const parsed = parseJwt(args.appCheckToken);
+    await verifyJwtSignature(ctx, parsed, "appCheck");
+    const payload = parsed.payload as unknown as AppCheckTokenPayload;
+    validateAppCheckClaims(payload, args.firebaseProjectNumber);
+    return { appId: payload.sub };
+  },
+});
 
-    if (!cachedKeys || cachedKeys.expiresAt < Date.now()) {
-      // Fetch fresh keys
-      const response = await fetch(GOOGLE_JWK_URL);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch Google public keys: ${response.status}`,
-        );
-      }
-      const keysData = await response.text();
-      const cacheControl = response.headers.get("Cache-Control");
-      const maxAge = parseCacheControlMaxAge(cacheControl) ?? 3600;
-      const now = Date.now();
+/**
+ * Mints a Firebase custom token for `uid`, signed with the service account's
+ * private key. Clients exchange it via `signInWithCustomToken`; the
+ * developer claims then appear on the resulting ID tokens.
+ */
+export const createCustomToken = action({
+  args: {
+    uid: v.string(),
+    developerClaims: v.optional(v.record(v.string(), v.any())),
+    tenantId: v.optional(v.string()),
+    serviceAccountEmail: v.string(),
+    serviceAccountPrivateKey: v.string(),
+  },
+  returns: v.string(),
+  handler: async (_ctx, args) => {
+    const payload = customTokenPayload({
+      serviceAccountEmail: args.serviceAccountEmail,
+      uid: args.uid,
+      developerClaims: args.developerClaims,
+      tenantId: args.tenantId,
+    });
+    const privateKey = await importPkcs8PrivateKey(
+      args.serviceAccountPrivateKey,
+    );
+    return await signJwt(payload, privateKey);
+  },
+});
 
-      await ctx.runMutation(internal.lib._setCachedPublicKeys, {
-        keys: keysData,
-        fetchedAt: now,
-        expiresAt: now + maxAge * 1000,
-      });
+type VerifiedJwt = {
+  payload: FirebaseTokenPayload;
+  /** SHA-256 hash of the token; unset for unsigned emulator tokens. */
+  tokenHash?: string;
+};
+
+/**
+ * Verifies the signature and claims of a Firebase ID token or session cookie
+ * against the matching Google public keys, and returns its payload.
+ *
+ * The signature check is skipped for tokens found in the verified-token
+ * cache, and tokens whose session was revoked are rejected. With
+ * `emulatorHost` set, unsigned tokens minted by the Auth Emulator are
+ * accepted instead; their claims are still validated, but they are never
+ * cached, so revoking their sessions doesn't reject them.
+ */
+async function verifyFirebaseJwt(
+  ctx: ActionCtx,
+  token: string,
+  keySet: AuthKeySet,
+  {
+    firebaseProjectId,
+    emulatorHost,
+    policy,
+  }: {
+    firebaseProjectId: string | string[];
+    emulatorHost?: string;
+    policy?: ClaimsPolicy;
+  },
+): Promise<VerifiedJwt> {
+  // 1. Parse JWT
+  const parsed = parseJwt(token);
 
-      cachedKeys = {
-        keys: keysData,
-        fetchedAt: now,
-        expiresAt: now + maxAge * 1000,
-      };
+  if (emulatorHost) {
+    if (parsed.header.alg !== "none") {
+      throw new FirebaseAuthError(
+        INVALID_TOKEN_CODES[keySet],
+        `Unsupported algorithm in emulator mode: ${parsed.header.alg}`,
+      );
     }
+    validateClaims(
+      parsed.payload,
+      firebaseProjectId,
+      ISSUER_PREFIXES[keySet],
+      policy,
+    );
+    return { payload: parsed.payload };
+  }
 
-    // 4. Find matching key by kid
-    const jwkSet = JSON.parse(cachedKeys.keys) as {
-      keys: (JsonWebKey & { kid: string })[];
-    };
-    const matchingKey = jwkSet.keys.find((k) => k.kid === parsed.header.kid);
-    if (!matchingKey) {
-      throw new Error(
-        `No matching public key found for kid: ${parsed.header.kid}`,
+  // Tokens verified before have a trusted signature; only the claims,
+  // which depend on the current time, need checking again
+  const tokenHash = await hashToken(token);
+  const cachedToken = await ctx.runQuery(internal.lib._getVerifiedToken, {
+    tokenHash,
+  });
+  if (cachedToken && cachedToken.firebaseUid === parsed.payload.sub) {
+    if (cachedToken.revoked) {
+      throw new FirebaseAuthError(
+        REVOKED_TOKEN_CODES[keySet],
+        "Session has been revoked",
       );
     }
+    validateClaims(
+      parsed.payload,
+      firebaseProjectId,
+      ISSUER_PREFIXES[keySet],
+      policy,
+    );
+    return { payload: parsed.payload, tokenHash };
+  }
+
+  // 2. Verify the signature against the key set
+  await verifyJwtSignature(ctx, parsed, keySet);
+
+  // 3. Validate claims
+  validateClaims(
+    parsed.payload,
+    firebaseProjectId,
+    ISSUER_PREFIXES[keySet],
+    policy,
+  );
+
+  return { payload: parsed.payload, tokenHash };
+}
 
-    // 5. Import JWK and verify signature
-    const cryptoKey = await importJwk(matchingKey);
-    const isValid = await verifyRS256Signature(
-      parsed.signedContent,
-      parsed.signature,
-      cryptoKey,
+/**
+ * Checks that a token is signed with RS256 by a key from the given public
+ * key set, fetching the set when the cached copy is missing or stale.
+ */
+async function verifyJwtSignature(
+  ctx: ActionCtx,
+  parsed: ParsedJwt,
+  keySet: PublicKeySet,
+): Promise<void> {
+  // 1. Validate header algorithm
+  if (parsed.header.alg !== "RS256") {
+    throw new FirebaseAuthError(
+      INVALID_TOKEN_CODES[keySet],
+      `Unsupported algorithm: ${parsed.header.alg}`,
     );
-    if (!isValid) {
-      throw new Error("Invalid token signature");
-    }
+  }
+
+  // 2. Get public keys (cached or fetched)
+  let cachedKeys: CachedPublicKeys | null = await ctx.runQuery(
+    internal.lib._getCachedPublicKeys,
+    { keySet },
+  );
+
+  if (!cachedKeys || cachedKeys.expiresAt < Date.now()) {
+    cachedKeys = await refreshPublicKeys(ctx, keySet, cachedKeys);
+  }
+
+  // 3. Find matching key by kid
+  let matchingKey = findPublicKey(cachedKeys, parsed.header.kid);
+  if (
+    !matchingKey &&
+    Date.now() - cachedKeys.fetchedAt >= UNKNOWN_KID_REFETCH_INTERVAL_MS
+  ) {
+    // Google may have rotated its keys before the cached set expired
+    cachedKeys = await refreshPublicKeys(ctx, keySet, cachedKeys);
+    matchingKey = findPublicKey(cachedKeys, parsed.header.kid);
+  }
+  if (!matchingKey) {
+    throw new FirebaseAuthError(
+      INVALID_TOKEN_CODES[keySet],
+      `No matching public key found for kid: ${parsed.header.kid}`,
+    );
+  }
+
+  // 4. Import JWK and verify signature
+  const cryptoKey = await importJwk(matchingKey);
+  const isValid = await verifyRS256Signature(
+    parsed.signedContent,
+    parsed.signature,
+    cryptoKey,
+  );
+  if (!isValid) {
+    throw new FirebaseAuthError(
+      INVALID_TOKEN_CODES[keySet],
+      "Invalid token signature",
+    );
+  }
+}
+
+type CachedPublicKeys = { keys: string; fetchedAt: number; expiresAt: number };
+
+function findPublicKey(cachedKeys: CachedPublicKeys, kid: string | undefined) {
+  const jwkSet = JSON.parse(cachedKeys.keys) as {
+    keys: (JsonWebKey & { kid: string })[];
+  };
+  return jwkSet.keys.find((k) => k.kid === kid);
+}
+
+/**
+ * Refetches a public key set, unless another verification is already doing
+ * so, or an earlier fetch failed recently, and the cached set can still be
+ * used.
+ *
+ * When the fetch fails, the cached set keeps being served until
+ * `STALE_KEY_GRACE_MS` past its expiry. The failure is recorded either way,
+ * holds off further fetches for a back-off period and shows up in
+ * `getKeyFetchHealth`.
+ */
+async function refreshPublicKeys(
+  ctx: ActionCtx,
+  keySet: PublicKeySet,
+  cachedKeys: CachedPublicKeys | null,
+): Promise<CachedPublicKeys> {
+  const usableKeys =
+    cachedKeys && cachedKeys.expiresAt + STALE_KEY_GRACE_MS >= Date.now()
+      ? cachedKeys
+      : null;
+  const claimed = await ctx.runMutation(internal.lib._claimKeyFetch, {
+    keySet,
+  });
+  if (!claimed && usableKeys) return usableKeys;
+
+  try {
+    return await fetchPublicKeys(ctx, keySet);
+  } catch (error) {
+    await ctx.runMutation(internal.lib._recordKeyFetchFailure, {
+      keySet,
+      error: getErrorMessage(error),
+    });
+    if (usableKeys) return usableKeys;
+    throw error;
+  }
+}
 
-    // 6. Validate claims
-    validateClaims(parsed.payload, firebaseProjectId);
+/**
+ * Fetches a Google public key set and stores it in `publicKeyCache` for as
+ * long as the response's `Cache-Control` max-age allows.
+ */
+async function fetchPublicKeys(
+  ctx: ActionCtx,
+  keySet: PublicKeySet,
+): Promise<CachedPublicKeys> {
+  let response: Response;
+  try {
+    response = await fetch(PUBLIC_KEY_URLS[keySet]);
+  } catch (error) {
+    throw new FirebaseAuthError(
+      "auth/key-fetch-failed",
+      `Failed to fetch Google public keys: ${String(error)}`,
+    );
+  }
+  if (!response.ok) {
+    throw new FirebaseAuthError(
+      "auth/key-fetch-failed",
+      `Failed to fetch Google public keys: ${response.status}`,
+    );
+  }
+  const keysData = await response.text();
+  const cacheControl = response.headers.get("Cache-Control");
+  const maxAge = parseCacheControlMaxAge(cacheControl) ?? 3600;
+  const now = Date.now();
+
+  const cachedKeys = {
+    keys: keysData,
+    fetchedAt: now,
+    expiresAt: now + maxAge * 1000,
+  };
+  await ctx.runMutation(internal.lib._setCachedPublicKeys, {
+    keySet,
+    ...cachedKeys,
+  });
+  return cachedKeys;
+}
+
+/**
+ * Rejects tokens authenticated before the user's revocation watermark, as set
+ * by `revokeRefreshTokens`, `invalidateAllSessions` or `deleteUser`.
+ */
+async function assertNotRevoked(
+  ctx: ActionCtx,
+  payload: FirebaseTokenPayload,
+  keySet: AuthKeySet,
+): Promise<void> {
+  const tokensValidAfter = (await ctx.runQuery(
+    internal.lib._getTokensValidAfter,
+    {
+      firebaseUid: payload.sub,
+      tenantId: payload.firebase?.tenant,
+      projectId: payload.aud,
+    },
+  )) as number | null;
+  if (tokensValidAfter !== null && authTimeMs(payload) < tokensValidAfter) {
+    throw new FirebaseAuthError(
+      REVOKED_TOKEN_CODES[keySet],
+      "Token has been revoked",
+    );
+  }
+}
 
-    // 7. Upsert user
-    const firebasePayload = parsed.payload;
-    const userId = (await ctx.runMutation(internal.lib._upsertUser, {
+/**
+ * Upserts the user described by a verified token payload and opens a session
+ * that lasts until the token expires, in a single transaction. With
+ * `checkRevoked`, the revocation watermark is checked in the same transaction.
+ * With `rolesClaim`, the roles listed in that claim are mirrored too. A new
+ * session records the `device` it was opened on. Users stored without a
+ * project are only adopted by the first project in `firebaseProjectId`.
+ */
+async function recordSignIn(
+  ctx: ActionCtx,
+  { payload: firebasePayload, tokenHash }: VerifiedJwt,
+  keySet: AuthKeySet,
+  {
+    checkRevoked,
+    rolesClaim,
+    hooks,
+    anonymousUid,
+    device,
+    firebaseProjectId,
+  }: {
+    firebaseProjectId: string | string[];
+    checkRevoked?: boolean;
+    rolesClaim?: string;
+    hooks?: Hooks;
+    anonymousUid?: string;
+    device?: Device;
+  },
+): Promise<UserReturn> {
+  const signInProvider = firebasePayload.firebase?.sign_in_provider;
+  return (await ctx.runMutation(internal.lib._recordSignIn, {
+    user: {
       firebaseUid: firebasePayload.sub,
+      tenantId: firebasePayload.firebase?.tenant,
+      projectId: firebasePayload.aud,
       email: firebasePayload.email,
       emailVerified: firebasePayload.email_verified,
       displayName: firebasePayload.name,
       photoURL: firebasePayload.picture,
       phoneNumber: firebasePayload.phone_number,
-      providerId: firebasePayload.firebase?.sign_in_provider,
+      providerId: signInProvider,
+      // Recorded as false too, so linking a credential clears it
       isAnonymous:
-        firebasePayload.firebase?.sign_in_provider === "anonymous" ||
-        undefined,
+        signInProvider === undefined
+          ? undefined
+          : signInProvider === "anonymous",
       lastSignInTime: firebasePayload.auth_time
         ? firebasePayload.auth_time * 1000
         : undefined,
-    })) as string;
+      customClaims: JSON.stringify(extractDeveloperClaims(firebasePayload)),
+    },
+    expiresAt: firebasePayload.exp * 1000,
+    tokenHash,
+    keySet,
+    device,
+    revocationCheck: checkRevoked
+      ? { authTime: authTimeMs(firebasePayload), keySet }
+      : undefined,
+    claimRoles:
+      rolesClaim === undefined
+        ? undefined
+        : roleNamesFromClaim(firebasePayload[rolesClaim]),
+    identities: identitiesFromClaim(firebasePayload.firebase?.identities),
+    hooks,
+    anonymousUid,
+    primaryProjectId: Array.isArray(firebaseProjectId)
+      ? firebaseProjectId[0]
+      : firebaseProjectId,
+  })) as UserReturn;
+}
 
-    // 8. Create session
-    const now = Date.now();
-    await ctx.runMutation(internal.lib._createSession, {
-      userId,
-      firebaseUid: firebasePayload.sub,
-      expiresAt: firebasePayload.exp * 1000,
-      createdAt: now,
-      lastActiveAt: now,
-    });
+/**
+ * Verifies the ID token an anonymous user held before signing in to an
+ * existing account, and returns the anonymous uid. The claims policy is not
+ * applied to it. Returns undefined when the uid is unchanged, which happens
+ * when the anonymous user linked a credential instead. Throws when the token
+ * is invalid or expired; `verifyToken` then reports the error code as
+ * `anonymousIdTokenError` instead of failing the sign-in.
+ */
+async function verifyAnonymousUid(
+  ctx: ActionCtx,
+  anonymousIdToken: string,
+  { payload }: VerifiedJwt,
+  args: { firebaseProjectId: string | string[]; emulatorHost?: string },
+): Promise<string | undefined> {
+  const { payload: anonymous } = await verifyFirebaseJwt(
+    ctx,
+    anonymousIdToken,
+    "idToken",
+    {
+      firebaseProjectId: args.firebaseProjectId,
+      emulatorHost: args.emulatorHost,
+    },
+  );
+  if (anonymous.firebase?.sign_in_provider !== "anonymous") {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "anonymousIdToken must belong to an anonymous user",
+    );
+  }
+  if (
+    anonymous.aud !== payload.aud ||
+    anonymous.firebase?.tenant !== payload.firebase?.tenant
+  ) {
+    throw new FirebaseAuthError(
+      "auth/argument-error",
+      "anonymousIdToken must belong to the same project and tenant",
+    );
+  }
+  return anonymous.sub === payload.sub ? undefined : anonymous.sub;
+}
+
+// A roles claim holds a list of role names, or a single one
+function roleNamesFromClaim(claim: unknown): string[] {
+  const names = Array.isArray(claim) ? claim : [claim];
+  return names.filter((name): name is string => typeof name === "string");
+}
 
-    // 9. Return user
-    const user = (await ctx.runQuery(internal.lib._getUserById, {
-      userId,
-    })) as UserReturn;
-    return user;
+// Flattens the firebase.identities map into one entry per identifier
+function identitiesFromClaim(
+  claim: Record<string, string[]> | undefined,
+): Identity[] | undefined {
+  if (!claim) return undefined;
+  return Object.entries(claim).flatMap(([providerId, providerUids]) =>
+    (Array.isArray(providerUids) ? providerUids : [])
+      .filter((providerUid) => typeof providerUid === "string")
+      .map((providerUid) => ({ providerId, providerUid })),
+  );
+}
+
+function authTimeMs(payload: FirebaseTokenPayload): number {
+  return (payload.auth_time ?? payload.iat) * 1000;
+}
+
+/**
+ * Health of the public key fetches, per key set. `servingStaleKeys` is true
+ * while verifications rely on an expired key set because refetching failed.
+ */
+export const getKeyFetchHealth = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      keySet: publicKeySetValidator,
+      keysExpireAt: v.optional(v.number()),
+      servingStaleKeys: v.boolean(),
+      lastSuccessAt: v.optional(v.number()),
+      lastFailureAt: v.optional(v.number()),
+      lastError: v.optional(v.string()),
+      consecutiveFailures: v.number(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const statuses = await ctx.db.query("keyFetchStatus").collect();
+    const now = Date.now();
+    return await Promise.all(
+      statuses.map(async (status) => {
+        const cached = await ctx.db
+          .query("publicKeyCache")
+          .withIndex("by_keySet", (q) => q.eq("keySet", status.keySet))
+          .first();
+        return {
+          keySet: status.keySet,
+          keysExpireAt: cached?.expiresAt,
+          servingStaleKeys:
+            cached !== null &&
+            cached.expiresAt < now &&
+            status.consecutiveFailures > 0,
+          lastSuccessAt: status.lastSuccessAt,
+          lastFailureAt: status.lastFailureAt,
+          lastError: status.lastError,
+          consecutiveFailures: status.consecutiveFailures,
+        };
+      }),
+    );
   },
 });
 
@@ -200,55 +914,255 @@ export const getUser = query({
 });
 
 export const getUserByFirebaseUid = query({
-  args: { firebaseUid: v.string() },
+  args: userKeyArgs,
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    const doc = await findUser(ctx, args);
+    if (!doc) return null;
+    return { ...doc, _id: doc._id as unknown as string };
+  },
+});
+
+/**
+ * Pages through the users of a tenant, or those outside any tenant. The
+ * filters are optional; `signedInAfter` and `signedInBefore` bound
+ * `lastSignInTime` and leave out users who never signed in. Pages are read
+ * with `take` rather than `paginate`, so a page only comes back short once
+ * no users are left, however few users match the filters.
+ */
+export const listUsers = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    tenantId: v.optional(v.string()),
+    providerId: v.optional(v.string()),
+    isAnonymous: v.optional(v.boolean()),
+    disabled: v.optional(v.boolean()),
+    emailVerified: v.optional(v.boolean()),
+    signedInAfter: v.optional(v.number()),
+    signedInBefore: v.optional(v.number()),
+  },
+  returns: paginationResultValidator(userObjectValidator),
+  handler: async (ctx, args) => {
+    const bySignIn =
+      args.signedInAfter !== undefined || args.signedInBefore !== undefined;
+    const after = parseListUsersCursor(args.paginationOpts.cursor);
+    const users = bySignIn
+      ? ctx.db.query("users").withIndex("by_tenantId_and_lastSignInTime", (q) =>
+          q
+            .eq("tenantId", args.tenantId)
+            .gte(
+              "lastSignInTime",
+              Math.max(args.signedInAfter ?? 0, Number(after?.[0] ?? 0)),
+            )
+            .lte(
+              "lastSignInTime",
+              args.signedInBefore ?? Number.MAX_SAFE_INTEGER,
+            ),
+        )
+      : ctx.db
+          .query("users")
+          .withIndex("by_tenantId_and_firebaseUid", (q) =>
+            after
+              ? q
+                  .eq("tenantId", args.tenantId)
+                  .gte("firebaseUid", String(after[0]))
+              : q.eq("tenantId", args.tenantId),
+          );
+    const { numItems } = args.paginationOpts;
+    const docs = await users
+      .filter((q) => {
+        const conditions = [];
+        if (after) {
+          // Users with the same key as the cursor are ordered by creation time
+          conditions.push(
+            q.or(
+              q.gt(
+                bySignIn ? q.field("lastSignInTime") : q.field("firebaseUid"),
+                after[0],
+              ),
+              q.gt(q.field("_creationTime"), after[1]),
+            ),
+          );
+        }
+        // Flags are stored as true or left unset
+        for (const flag of [
+          "isAnonymous",
+          "disabled",
+          "emailVerified",
+        ] as const) {
+          const value = args[flag];
+          if (value !== undefined) {
+            conditions.push(
+              value ? q.eq(q.field(flag), true) : q.neq(q.field(flag), true),
+            );
+          }
+        }
+        if (args.providerId !== undefined) {
+          conditions.push(q.eq(q.field("providerId"), args.providerId));
+        }
+        return q.and(...conditions);
+      })
+      .take(numItems + 1);
+    const page = docs.slice(0, numItems);
+    const last = page[page.length - 1];
+    return {
+      page: page.map((doc) => ({ ...doc, _id: doc._id as unknown as string })),
+      isDone: docs.length <= numItems,
+      continueCursor: last
+        ? JSON.stringify([
+            bySignIn ? last.lastSignInTime : last.firebaseUid,
+            last._creationTime,
+          ])
+        : (args.paginationOpts.cursor ?? ""),
+    };
+  },
+});
+
+// A `listUsers` cursor: the index key and creation time of the last user
+// returned, or null for the first page.
+function parseListUsersCursor(
+  cursor: string | null,
+): [string | number, number] | null {
+  if (cursor === null || cursor === "") return null;
+  try {
+    const parsed = JSON.parse(cursor) as unknown;
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (typeof parsed[0] === "string" || typeof parsed[0] === "number") &&
+      typeof parsed[1] === "number"
+    ) {
+      return parsed as [string | number, number];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new FirebaseAuthError(
+    "auth/argument-error",
+    "Invalid listUsers cursor",
+  );
+}
+
+export const getUserByEmail = query({
+  args: {
+    email: v.string(),
+    tenantId: v.optional(v.string()),
+    projectId: v.optional(v.string()),
+  },
   returns: userReturnValidator,
   handler: async (ctx, args): Promise<UserReturn> => {
-    const doc = await ctx.db
+    const users = await ctx.db
       .query("users")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
+      .withIndex("by_tenantId_and_email", (q) =>
+        q.eq("tenantId", args.tenantId).eq("email", args.email),
       )
-      .unique();
+      .collect();
+    const doc = pickProjectUser(users, args.projectId, `Email ${args.email}`);
+    if (!doc) return null;
+    return { ...doc, _id: doc._id as unknown as string };
+  },
+});
+
+export const getUserByPhoneNumber = query({
+  args: {
+    phoneNumber: v.string(),
+    tenantId: v.optional(v.string()),
+    projectId: v.optional(v.string()),
+  },
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_tenantId_and_phoneNumber", (q) =>
+        q.eq("tenantId", args.tenantId).eq("phoneNumber", args.phoneNumber),
+      )
+      .collect();
+    const doc = pickProjectUser(
+      users,
+      args.projectId,
+      `Phone number ${args.phoneNumber}`,
+    );
     if (!doc) return null;
     return { ...doc, _id: doc._id as unknown as string };
   },
 });
 
+/**
+ * Full-text search over users' display names and emails. Display name
+ * matches come first.
+ */
+export const searchUsers = query({
+  args: {
+    query: v.string(),
+    tenantId: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(userObjectValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_SEARCH_LIMIT;
+    const byDisplayName = await ctx.db
+      .query("users")
+      .withSearchIndex("search_displayName", (q) =>
+        q.search("displayName", args.query).eq("tenantId", args.tenantId),
+      )
+      .take(limit);
+    const byEmail = await ctx.db
+      .query("users")
+      .withSearchIndex("search_email", (q) =>
+        q.search("email", args.query).eq("tenantId", args.tenantId),
+      )
+      .take(limit);
+
+    const users = new Map<string, (typeof byEmail)[number]>();
+    for (const doc of [...byDisplayName, ...byEmail]) {
+      users.set(doc._id, doc);
+    }
+    return [...users.values()]
+      .slice(0, limit)
+      .map((doc) => ({ ...doc, _id: doc._id as unknown as string }));
+  },
+});
+
+/**
+ * Returns the user's custom claims, as of the last verified token or admin
+ * sync, or null if the user is unknown.
+ */
+export const getCustomClaims = query({
+  args: userKeyArgs,
+  returns: v.union(v.null(), v.record(v.string(), v.any())),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return null;
+    return parseCustomClaims(user.customClaims);
+  },
+});
+
 export const updateUserProfile = mutation({
   args: {
-    firebaseUid: v.string(),
+    ...userKeyArgs,
     displayName: v.optional(v.string()),
     photoURL: v.optional(v.string()),
+    hooks: v.optional(hooksValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
-      )
-      .unique();
+    const user = await findUser(ctx, args);
     if (!user) {
-      throw new Error("User not found");
+      throw new FirebaseAuthError("auth/user-not-found", "User not found");
     }
     const updates: Record<string, string | undefined> = {};
     if (args.displayName !== undefined) updates.displayName = args.displayName;
     if (args.photoURL !== undefined) updates.photoURL = args.photoURL;
-    await ctx.db.patch(user._id, updates);
+    await patchUser(ctx, user, updates, args.hooks);
     return null;
   },
 });
 
 export const deleteUser = mutation({
-  args: { firebaseUid: v.string() },
+  args: { ...userKeyArgs, hooks: v.optional(hooksValidator) },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
-      )
-      .unique();
+    const user = await findUser(ctx, args);
     if (!user) return null;
 
     // Delete all sessions
@@ -259,9 +1173,28 @@ export const deleteUser = mutation({
     for (const session of sessions) {
       await ctx.db.delete(session._id);
     }
+    await forgetVerifiedTokens(ctx, args.firebaseUid);
+    for (const userRole of await getUserRoleRows(ctx, user._id)) {
+      await ctx.db.delete(userRole._id);
+    }
+    for (const identity of await getIdentityRows(ctx, user._id)) {
+      await ctx.db.delete(identity._id);
+    }
+
+    // Keep the revocation watermark, so tokens issued before the deletion
+    // cannot recreate the user when verified with checkRevoked
+    await ctx.db.insert("deletedUsers", {
+      firebaseUid: args.firebaseUid,
+      tenantId: args.tenantId,
+      projectId: user.projectId,
+      tokensValidAfter: revocationTimestamp(),
+    });
 
     // Delete user
     await ctx.db.delete(user._id);
+    await runHook(ctx, args.hooks?.onUserDeleted, {
+      user: { ...user, _id: user._id as unknown as string },
+    });
     return null;
   },
 });
@@ -269,15 +1202,21 @@ export const deleteUser = mutation({
 // ─── Session Management ────────────────────────────────────────────────────
 
 export const getSession = query({
-  args: { firebaseUid: v.string() },
+  args: userKeyArgs,
   returns: sessionReturnValidator,
   handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return null;
+    if (user.disabled) {
+      throw new FirebaseAuthError("auth/user-disabled", "User is disabled");
+    }
     const session = await ctx.db
       .query("sessions")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
+      .withIndex("by_tenantId_and_firebaseUid", (q) =>
+        q.eq("tenantId", args.tenantId).eq("firebaseUid", args.firebaseUid),
       )
       .order("desc")
+      .filter((q) => q.eq(q.field("userId"), user._id))
       .first();
     if (!session) return null;
     if (session.expiresAt < Date.now()) return null;
@@ -292,100 +1231,552 @@ export const invalidateSession = mutation({
     const session = await ctx.db.get(args.sessionId as Id<"sessions">);
     if (session) {
       await ctx.db.delete(session._id);
+      const tokens = await ctx.db
+        .query("verifiedTokens")
+        .withIndex("by_sessionId", (q) => q.eq("sessionId", session._id))
+        .collect();
+      for (const token of tokens) {
+        await ctx.db.delete(token._id);
+      }
     }
     return null;
   },
 });
 
-export const invalidateAllSessions = mutation({
-  args: { firebaseUid: v.string() },
-  returns: v.null(),
+/**
+ * Returns the user's unexpired sessions, newest first, with the device each
+ * was opened on.
+ */
+export const listSessions = query({
+  args: userKeyArgs,
+  returns: v.array(sessionValidator),
   handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return [];
     const sessions = await ctx.db
       .query("sessions")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
-      )
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .order("desc")
       .collect();
-    for (const session of sessions) {
-      await ctx.db.delete(session._id);
-    }
-    return null;
+    const now = Date.now();
+    return sessions
+      .filter((session) => session.expiresAt >= now)
+      .map((session) => ({
+        ...session,
+        _id: session._id as unknown as string,
+      }));
   },
 });
 
-// ─── Firebase REST API Operations ──────────────────────────────────────────
-
-export const getUserData = action({
-  args: {
-    idToken: v.string(),
-    firebaseApiKey: v.string(),
-  },
-  returns: v.string(),
-  handler: async (_ctx, args) => {
-    const response = await fetch(
-      `${FIREBASE_API_BASE}/accounts:lookup?key=${args.firebaseApiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ idToken: args.idToken }),
-      },
-    );
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Firebase getUserData failed: ${error}`);
+/**
+ * Signs one of the user's devices out: deletes the session and rejects the
+ * token that opened it until the token expires. Sessions of other users are
+ * left alone.
+ */
+export const revokeSession = mutation({
+  args: { ...userKeyArgs, sessionId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    const sessionId = ctx.db.normalizeId("sessions", args.sessionId);
+    const session = sessionId ? await ctx.db.get(sessionId) : null;
+    if (!user || !session || session.userId !== user._id) return null;
+    await ctx.db.delete(session._id);
+    const tokens = await ctx.db
+      .query("verifiedTokens")
+      .withIndex("by_sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    for (const token of tokens) {
+      await ctx.db.patch(token._id, { revoked: true });
     }
-    return await response.text();
+    return null;
   },
 });
 
-export const sendPasswordResetEmail = action({
-  args: {
-    email: v.string(),
-    firebaseApiKey: v.string(),
-  },
+/**
+ * Locks a user out: their sessions and tokens are revoked, and their tokens
+ * are rejected by `verifyToken` until `enableUser` is called.
+ */
+export const disableUser = mutation({
+  args: { ...userKeyArgs, hooks: v.optional(hooksValidator) },
   returns: v.null(),
-  handler: async (_ctx, args) => {
-    const response = await fetch(
-      `${FIREBASE_API_BASE}/accounts:sendOobCode?key=${args.firebaseApiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          requestType: "PASSWORD_RESET",
-          email: args.email,
-        }),
-      },
-    );
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Firebase sendPasswordResetEmail failed: ${error}`);
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) {
+      throw new FirebaseAuthError("auth/user-not-found", "User not found");
     }
+    await patchUser(ctx, user, { disabled: true }, args.hooks);
+    await revokeTokens(ctx, args);
     return null;
   },
 });
 
-export const sendEmailVerification = action({
-  args: {
+export const enableUser = mutation({
+  args: { ...userKeyArgs, hooks: v.optional(hooksValidator) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) {
+      throw new FirebaseAuthError("auth/user-not-found", "User not found");
+    }
+    await patchUser(ctx, user, { disabled: false }, args.hooks);
+    return null;
+  },
+});
+
+export const invalidateAllSessions = mutation({
+  args: userKeyArgs,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await revokeTokens(ctx, args);
+    return null;
+  },
+});
+
+export const revokeRefreshTokens = mutation({
+  args: userKeyArgs,
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    return await revokeTokens(ctx, args);
+  },
+});
+
+/**
+ * Deletes all of the user's sessions and moves their revocation watermark to
+ * now. Returns the new watermark.
+ */
+async function revokeTokens(ctx: MutationCtx, key: UserKey): Promise<number> {
+  const tokensValidAfter = revocationTimestamp();
+  const user = await findUser(ctx, key);
+  if (user) {
+    await ctx.db.patch(user._id, { tokensValidAfter });
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const session of sessions) {
+      await ctx.db.delete(session._id);
+    }
+  }
+  await forgetVerifiedTokens(ctx, key.firebaseUid);
+  return tokensValidAfter;
+}
+
+// Drops the user's verified-token cache entries, so their tokens go through
+// full verification again.
+async function forgetVerifiedTokens(ctx: MutationCtx, firebaseUid: string) {
+  const tokens = await ctx.db
+    .query("verifiedTokens")
+    .withIndex("by_firebaseUid", (q) => q.eq("firebaseUid", firebaseUid))
+    .collect();
+  for (const token of tokens) {
+    await ctx.db.delete(token._id);
+  }
+}
+
+/**
+ * Firebase UIDs are only unique within a project and Identity Platform
+ * tenant, so users are keyed on all three; `tenantId` is unset for users
+ * outside any tenant.
+ *
+ * Without `projectId`, the UID must belong to a single project. Users stored
+ * before projects were recorded have no `projectId` and match any project,
+ * unless `primaryProjectId` is given: sign-ins pass the first trusted project
+ * so that only it adopts those users.
+ */
+async function findUser(
+  ctx: QueryCtx,
+  { firebaseUid, tenantId, projectId }: UserKey,
+  primaryProjectId?: string,
+) {
+  const users = await ctx.db
+    .query("users")
+    .withIndex("by_tenantId_and_firebaseUid", (q) =>
+      q.eq("tenantId", tenantId).eq("firebaseUid", firebaseUid),
+    )
+    .collect();
+  return pickProjectUser(
+    users,
+    projectId,
+    `User ${firebaseUid}`,
+    primaryProjectId,
+  );
+}
+
+/**
+ * Picks the user of `projectId` among `users`, which share a key but may
+ * belong to different projects. Users recorded before projects were tracked
+ * stand in for `primaryProjectId`, or for any project if it isn't given.
+ */
+function pickProjectUser(
+  users: Doc<"users">[],
+  projectId: string | undefined,
+  description: string,
+  primaryProjectId?: string,
+) {
+  if (projectId === undefined) {
+    if (users.length > 1) {
+      throw new FirebaseAuthError(
+        "auth/argument-error",
+        `${description} exists in several projects; pass projectId`,
+      );
+    }
+    return users[0] ?? null;
+  }
+  return (
+    users.find((user) => user.projectId === projectId) ??
+    (primaryProjectId === undefined || primaryProjectId === projectId
+      ? users.find((user) => user.projectId === undefined)
+      : undefined) ??
+    null
+  );
+}
+
+// Firebase's auth_time has second precision, so the watermark is truncated
+// to the second; otherwise a sign-in right after revocation would be rejected.
+function revocationTimestamp(): number {
+  return Math.floor(Date.now() / 1000) * 1000;
+}
+
+// ─── Roles ─────────────────────────────────────────────────────────────────
+
+const roleValidator = v.object({
+  name: v.string(),
+  permissions: v.array(v.string()),
+  description: v.optional(v.string()),
+});
+
+/** Creates a role, or replaces the permissions of an existing one. */
+export const defineRole = mutation({
+  args: roleValidator,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (args.name === "") {
+      throw new FirebaseAuthError(
+        "auth/argument-error",
+        "Role name must not be empty",
+      );
+    }
+    const existing = await findRole(ctx, args.name);
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+    } else {
+      await ctx.db.insert("roles", args);
+    }
+    return null;
+  },
+});
+
+/** Deletes a role and takes it away from every user holding it. */
+export const deleteRole = mutation({
+  args: { name: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const role = await findRole(ctx, args.name);
+    if (role) await ctx.db.delete(role._id);
+    const userRoles = await ctx.db
+      .query("userRoles")
+      .withIndex("by_role", (q) => q.eq("role", args.name))
+      .collect();
+    for (const userRole of userRoles) {
+      await ctx.db.delete(userRole._id);
+    }
+    return null;
+  },
+});
+
+export const listRoles = query({
+  args: {},
+  returns: v.array(roleValidator),
+  handler: async (ctx) => {
+    const roles = await ctx.db.query("roles").collect();
+    return roles.map(({ name, permissions, description }) => ({
+      name,
+      permissions,
+      description,
+    }));
+  },
+});
+
+export const grantRole = mutation({
+  args: { ...userKeyArgs, role: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) {
+      throw new FirebaseAuthError("auth/user-not-found", "User not found");
+    }
+    if (!(await findRole(ctx, args.role))) {
+      throw new FirebaseAuthError(
+        "auth/role-not-found",
+        `Role not found: ${args.role}`,
+      );
+    }
+    const existing = await findUserRole(ctx, user._id, args.role);
+    if (!existing) {
+      await ctx.db.insert("userRoles", {
+        userId: user._id,
+        role: args.role,
+        source: "grant",
+      });
+    } else if (existing.source === "claim") {
+      // Keep the role when the claim no longer lists it
+      await ctx.db.patch(existing._id, { source: "grant" });
+    }
+    return null;
+  },
+});
+
+export const revokeRole = mutation({
+  args: { ...userKeyArgs, role: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return null;
+    const existing = await findUserRole(ctx, user._id, args.role);
+    if (existing) await ctx.db.delete(existing._id);
+    return null;
+  },
+});
+
+/**
+ * Returns the roles a user holds and the permissions they confer. Roles
+ * mirrored from a claim but never defined confer no permissions.
+ */
+export const getUserRoles = query({
+  args: userKeyArgs,
+  returns: v.object({
+    roles: v.array(v.string()),
+    permissions: v.array(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return { roles: [], permissions: [] };
+    const roles = (await getUserRoleRows(ctx, user._id)).map(
+      (userRole) => userRole.role,
+    );
+    const permissions = new Set<string>();
+    for (const name of roles) {
+      const role = await findRole(ctx, name);
+      for (const permission of role?.permissions ?? []) {
+        permissions.add(permission);
+      }
+    }
+    return { roles, permissions: [...permissions] };
+  },
+});
+
+async function findRole(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("roles")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .unique();
+}
+
+async function findUserRole(ctx: QueryCtx, userId: Id<"users">, role: string) {
+  return await ctx.db
+    .query("userRoles")
+    .withIndex("by_userId_and_role", (q) =>
+      q.eq("userId", userId).eq("role", role),
+    )
+    .unique();
+}
+
+async function getUserRoleRows(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("userRoles")
+    .withIndex("by_userId_and_role", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+/**
+ * Makes the user's claim-sourced roles match `roles`. Granted roles are
+ * left alone.
+ */
+async function mirrorClaimRoles(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  roles: string[],
+) {
+  const current = await getUserRoleRows(ctx, userId);
+  for (const userRole of current) {
+    if (userRole.source === "claim" && !roles.includes(userRole.role)) {
+      await ctx.db.delete(userRole._id);
+    }
+  }
+  for (const role of new Set(roles)) {
+    if (!current.some((userRole) => userRole.role === role)) {
+      await ctx.db.insert("userRoles", { userId, role, source: "claim" });
+    }
+  }
+}
+
+// ─── Linked Identities ─────────────────────────────────────────────────────
+
+const identityValidator = v.object({
+  providerId: v.string(),
+  providerUid: v.string(),
+});
+type Identity = Infer<typeof identityValidator>;
+
+/**
+ * Returns the provider identities linked to a user, as of their last verified
+ * token. Firebase lists the email and phone number as the `email` and `phone`
+ * providers.
+ */
+export const listIdentities = query({
+  args: userKeyArgs,
+  returns: v.array(identityValidator),
+  handler: async (ctx, args) => {
+    const user = await findUser(ctx, args);
+    if (!user) return [];
+    const identities = await getIdentityRows(ctx, user._id);
+    return identities.map(({ providerId, providerUid }) => ({
+      providerId,
+      providerUid,
+    }));
+  },
+});
+
+/** Finds the user linked to a provider identity, e.g. a Google subject ID. */
+export const getUserByIdentity = query({
+  args: {
+    providerId: v.string(),
+    providerUid: v.string(),
+    tenantId: v.optional(v.string()),
+  },
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    const identity = await ctx.db
+      .query("identities")
+      .withIndex("by_providerId_and_providerUid", (q) =>
+        q.eq("providerId", args.providerId).eq("providerUid", args.providerUid),
+      )
+      .filter((q) => q.eq(q.field("tenantId"), args.tenantId))
+      .first();
+    if (!identity) return null;
+    const doc = await ctx.db.get(identity.userId);
+    if (!doc) return null;
+    return { ...doc, _id: doc._id as unknown as string };
+  },
+});
+
+async function getIdentityRows(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("identities")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+/** Makes the user's stored identities match those of their latest token. */
+async function syncIdentities(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  tenantId: string | undefined,
+  identities: Identity[],
+) {
+  const key = ({ providerId, providerUid }: Identity) =>
+    JSON.stringify([providerId, providerUid]);
+  const wanted = new Set(identities.map(key));
+  const current = await getIdentityRows(ctx, userId);
+  for (const identity of current) {
+    if (!wanted.delete(key(identity))) {
+      await ctx.db.delete(identity._id);
+    }
+  }
+  for (const identity of identities) {
+    if (wanted.delete(key(identity))) {
+      await ctx.db.insert("identities", { userId, tenantId, ...identity });
+    }
+  }
+}
+
+// ─── Firebase REST API Operations ──────────────────────────────────────────
+
+export const getUserData = action({
+  args: {
+    idToken: v.string(),
+    firebaseApiKey: v.string(),
+    emulatorHost: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
+  },
+  returns: v.string(),
+  handler: async (_ctx, args) => {
+    const response = await fetch(
+      `${firebaseApiBase(args.emulatorHost)}/accounts:lookup?key=${args.firebaseApiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          idToken: args.idToken,
+          tenantId: args.tenantId,
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw parseFirebaseRestError("getUserData", await response.text());
+    }
+    return await response.text();
+  },
+});
+
+export const sendPasswordResetEmail = action({
+  args: {
+    email: v.string(),
+    firebaseApiKey: v.string(),
+    emulatorHost: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (_ctx, args) => {
+    const response = await fetch(
+      `${firebaseApiBase(args.emulatorHost)}/accounts:sendOobCode?key=${args.firebaseApiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requestType: "PASSWORD_RESET",
+          email: args.email,
+          tenantId: args.tenantId,
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw parseFirebaseRestError(
+        "sendPasswordResetEmail",
+        await response.text(),
+      );
+    }
+    return null;
+  },
+});
+
+export const sendEmailVerification = action({
+  args: {
     idToken: v.string(),
     firebaseApiKey: v.string(),
+    emulatorHost: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (_ctx, args) => {
     const response = await fetch(
-      `${FIREBASE_API_BASE}/accounts:sendOobCode?key=${args.firebaseApiKey}`,
+      `${firebaseApiBase(args.emulatorHost)}/accounts:sendOobCode?key=${args.firebaseApiKey}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           requestType: "VERIFY_EMAIL",
           idToken: args.idToken,
+          tenantId: args.tenantId,
         }),
       },
     );
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Firebase sendEmailVerification failed: ${error}`);
+      throw parseFirebaseRestError(
+        "sendEmailVerification",
+        await response.text(),
+      );
     }
     return null;
   },
@@ -395,20 +1786,24 @@ export const deleteFirebaseAccount = action({
   args: {
     idToken: v.string(),
     firebaseApiKey: v.string(),
+    emulatorHost: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (_ctx, args) => {
     const response = await fetch(
-      `${FIREBASE_API_BASE}/accounts:delete?key=${args.firebaseApiKey}`,
+      `${firebaseApiBase(args.emulatorHost)}/accounts:delete?key=${args.firebaseApiKey}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ idToken: args.idToken }),
+        body: JSON.stringify({
+          idToken: args.idToken,
+          tenantId: args.tenantId,
+        }),
       },
     );
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Firebase deleteAccount failed: ${error}`);
+      throw parseFirebaseRestError("deleteAccount", await response.text());
     }
     return null;
   },
@@ -418,11 +1813,12 @@ export const refreshToken = action({
   args: {
     refreshTokenValue: v.string(),
     firebaseApiKey: v.string(),
+    emulatorHost: v.optional(v.string()),
   },
   returns: v.string(),
   handler: async (_ctx, args) => {
     const response = await fetch(
-      `${FIREBASE_TOKEN_URL}?key=${args.firebaseApiKey}`,
+      `${firebaseTokenUrl(args.emulatorHost)}?key=${args.firebaseApiKey}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -430,111 +1826,543 @@ export const refreshToken = action({
       },
     );
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Firebase refreshToken failed: ${error}`);
+      throw parseFirebaseRestError("refreshToken", await response.text());
     }
     return await response.text();
   },
 });
 
-// ─── Internal Functions ────────────────────────────────────────────────────
+// ─── Firebase Admin Operations ─────────────────────────────────────────────
+
+// Credentials and target of admin calls. The Auth Emulator accepts admin
+// calls without credentials, so none are exchanged when `emulatorHost` is set.
+const serviceAccountArgs = {
+  firebaseProjectId: v.string(),
+  serviceAccountEmail: v.string(),
+  serviceAccountPrivateKey: v.string(),
+  oauthTokenUrl: v.optional(v.string()),
+  emulatorHost: v.optional(v.string()),
+};
+type ServiceAccount = ObjectType<typeof serviceAccountArgs>;
+
+/**
+ * Looks up a user in Firebase by UID, stores the result in `users` and
+ * returns it. Returns null if Firebase has no such user.
+ */
+export const adminGetUser = action({
+  args: {
+    ...serviceAccountArgs,
+    firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
+    hooks: v.optional(hooksValidator),
+  },
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    return await syncUserFromFirebase(ctx, args, args, args.hooks);
+  },
+});
 
-export const _upsertUser = internalMutation({
+/**
+ * Updates a user's email, password, disabled flag or phone number in
+ * Firebase, then refreshes the stored user. A null phone number removes it.
+ */
+export const adminUpdateUser = action({
   args: {
+    ...serviceAccountArgs,
     firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
     email: v.optional(v.string()),
-    emailVerified: v.optional(v.boolean()),
-    displayName: v.optional(v.string()),
-    photoURL: v.optional(v.string()),
-    phoneNumber: v.optional(v.string()),
-    providerId: v.optional(v.string()),
-    isAnonymous: v.optional(v.boolean()),
-    lastSignInTime: v.optional(v.number()),
+    password: v.optional(v.string()),
+    disabled: v.optional(v.boolean()),
+    phoneNumber: v.optional(v.union(v.string(), v.null())),
+    hooks: v.optional(hooksValidator),
   },
-  returns: v.string(),
-  handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("users")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
-      )
-      .unique();
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    await adminRequest(ctx, args, "adminUpdateUser", "accounts:update", {
+      localId: args.firebaseUid,
+      tenantId: args.tenantId,
+      email: args.email,
+      password: args.password,
+      disableUser: args.disabled,
+      phoneNumber: args.phoneNumber ?? undefined,
+      deleteProvider: args.phoneNumber === null ? ["phone"] : undefined,
+    });
+    return await syncUserFromFirebase(ctx, args, args, args.hooks);
+  },
+});
 
-    if (existing) {
-      const updates: Record<string, unknown> = {};
-      if (args.email !== undefined) updates.email = args.email;
-      if (args.emailVerified !== undefined)
-        updates.emailVerified = args.emailVerified;
-      if (args.displayName !== undefined)
-        updates.displayName = args.displayName;
-      if (args.photoURL !== undefined) updates.photoURL = args.photoURL;
-      if (args.phoneNumber !== undefined)
-        updates.phoneNumber = args.phoneNumber;
-      if (args.providerId !== undefined) updates.providerId = args.providerId;
-      if (args.isAnonymous !== undefined)
-        updates.isAnonymous = args.isAnonymous;
-      if (args.lastSignInTime !== undefined)
-        updates.lastSignInTime = args.lastSignInTime;
-
-      if (Object.keys(updates).length > 0) {
-        await ctx.db.patch(existing._id, updates);
-      }
-      return existing._id as unknown as string;
+/**
+ * Replaces a user's custom claims in Firebase, then refreshes the stored
+ * user. The claims appear on ID tokens issued after the next token refresh.
+ */
+export const adminSetCustomClaims = action({
+  args: {
+    ...serviceAccountArgs,
+    firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
+    customClaims: v.record(v.string(), v.any()),
+    hooks: v.optional(hooksValidator),
+  },
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    assertNoReservedClaims(args.customClaims);
+    const customAttributes = JSON.stringify(args.customClaims);
+    if (customAttributes.length > MAX_CUSTOM_CLAIMS_LENGTH) {
+      throw new FirebaseAuthError(
+        "auth/argument-error",
+        `Custom claims must not exceed ${MAX_CUSTOM_CLAIMS_LENGTH} characters when serialized`,
+      );
     }
+    await adminRequest(ctx, args, "adminSetCustomClaims", "accounts:update", {
+      localId: args.firebaseUid,
+      tenantId: args.tenantId,
+      customAttributes,
+    });
+    return await syncUserFromFirebase(ctx, args, args, args.hooks);
+  },
+});
 
-    const userId = await ctx.db.insert("users", {
+/**
+ * Deletes a user from Firebase, then deletes the stored user and its
+ * sessions like `deleteUser`.
+ */
+export const adminDeleteUser = action({
+  args: {
+    ...serviceAccountArgs,
+    firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
+    hooks: v.optional(hooksValidator),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    try {
+      await adminRequest(ctx, args, "adminDeleteUser", "accounts:delete", {
+        localId: args.firebaseUid,
+        tenantId: args.tenantId,
+      });
+    } catch (error) {
+      // Already gone from Firebase; still remove the stored user
+      if (getErrorCode(error) !== "auth/user-not-found") throw error;
+    }
+    await ctx.runMutation(api.lib.deleteUser, {
       firebaseUid: args.firebaseUid,
-      email: args.email,
-      emailVerified: args.emailVerified,
-      displayName: args.displayName,
-      photoURL: args.photoURL,
-      phoneNumber: args.phoneNumber,
-      providerId: args.providerId,
-      isAnonymous: args.isAnonymous,
-      lastSignInTime: args.lastSignInTime,
+      tenantId: args.tenantId,
+      projectId: args.firebaseProjectId,
+      hooks: args.hooks,
     });
-    return userId as unknown as string;
+    return null;
   },
 });
 
-export const _createSession = internalMutation({
+// A user as returned by the `accounts:lookup` admin endpoint
+type FirebaseUserRecord = {
+  localId: string;
+  email?: string;
+  emailVerified?: boolean;
+  displayName?: string;
+  photoUrl?: string;
+  phoneNumber?: string;
+  disabled?: boolean;
+  customAttributes?: string;
+  lastLoginAt?: string;
+};
+
+// `disabled` is the flag just written to Firebase, if any: lookups only
+// report it while it is true, so enabling would otherwise go unnoticed.
+async function syncUserFromFirebase(
+  ctx: ActionCtx,
+  serviceAccount: ServiceAccount,
+  key: { firebaseUid: string; tenantId?: string; disabled?: boolean },
+  hooks: Hooks | undefined,
+): Promise<UserReturn> {
+  const result = (await adminRequest(
+    ctx,
+    serviceAccount,
+    "adminGetUser",
+    "accounts:lookup",
+    { localId: [key.firebaseUid], tenantId: key.tenantId },
+  )) as { users?: FirebaseUserRecord[] };
+  const record = result.users?.[0];
+  if (!record) return null;
+  return (await ctx.runMutation(internal.lib._syncUser, {
+    hooks,
+    firebaseUid: key.firebaseUid,
+    tenantId: key.tenantId,
+    projectId: serviceAccount.firebaseProjectId,
+    email: record.email,
+    emailVerified: record.emailVerified,
+    displayName: record.displayName,
+    photoURL: record.photoUrl,
+    phoneNumber: record.phoneNumber,
+    disabled: record.disabled ?? key.disabled,
+    customClaims: record.customAttributes,
+    lastSignInTime: record.lastLoginAt ? Number(record.lastLoginAt) : undefined,
+  })) as UserReturn;
+}
+
+/**
+ * Calls an admin endpoint of the Identity Toolkit API for the project,
+ * authorized by the service account, and returns the parsed response.
+ */
+async function adminRequest(
+  ctx: ActionCtx,
+  serviceAccount: ServiceAccount,
+  operation: string,
+  endpoint: string,
+  body: Record<string, unknown>,
+): Promise<unknown> {
+  const accessToken = serviceAccount.emulatorHost
+    ? "owner"
+    : await getServiceAccountAccessToken(ctx, serviceAccount);
+  const response = await fetch(
+    `${firebaseApiBase(serviceAccount.emulatorHost)}/projects/${serviceAccount.firebaseProjectId}/${endpoint}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(body),
+    },
+  );
+  if (!response.ok) {
+    throw parseFirebaseRestError(operation, await response.text());
+  }
+  return await response.json();
+}
+
+/**
+ * Returns an OAuth2 access token for the service account, exchanging a
+ * signed JWT assertion for a new one when none is cached.
+ */
+async function getServiceAccountAccessToken(
+  ctx: ActionCtx,
+  serviceAccount: ServiceAccount,
+): Promise<string> {
+  const cached = (await ctx.runQuery(internal.lib._getServiceAccountToken, {
+    serviceAccountEmail: serviceAccount.serviceAccountEmail,
+  })) as string | null;
+  if (cached !== null) return cached;
+
+  const tokenUrl = serviceAccount.oauthTokenUrl ?? GOOGLE_OAUTH_TOKEN_URL;
+  const iat = Math.floor(Date.now() / 1000);
+  const assertion = await signJwt(
+    {
+      iss: serviceAccount.serviceAccountEmail,
+      scope: SERVICE_ACCOUNT_SCOPES,
+      aud: tokenUrl,
+      iat,
+      exp: iat + 60 * 60,
+    },
+    await importPkcs8PrivateKey(serviceAccount.serviceAccountPrivateKey),
+  );
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: `grant_type=${encodeURIComponent("urn:ietf:params:oauth:grant-type:jwt-bearer")}&assertion=${assertion}`,
+  });
+  if (!response.ok) {
+    throw new FirebaseAuthError(
+      "auth/invalid-credential",
+      `Service account token exchange failed: ${await response.text()}`,
+    );
+  }
+  const token = (await response.json()) as {
+    access_token: string;
+    expires_in: number;
+  };
+  await ctx.runMutation(internal.lib._setServiceAccountToken, {
+    serviceAccountEmail: serviceAccount.serviceAccountEmail,
+    accessToken: token.access_token,
+    expiresAt: Date.now() + token.expires_in * 1000,
+  });
+  return token.access_token;
+}
+
+// ─── Internal Functions ────────────────────────────────────────────────────
+
+const upsertUserArgs = {
+  ...userKeyArgs,
+  email: v.optional(v.string()),
+  emailVerified: v.optional(v.boolean()),
+  displayName: v.optional(v.string()),
+  photoURL: v.optional(v.string()),
+  phoneNumber: v.optional(v.string()),
+  providerId: v.optional(v.string()),
+  isAnonymous: v.optional(v.boolean()),
+  lastSignInTime: v.optional(v.number()),
+  customClaims: v.optional(v.string()),
+};
+
+export const _recordSignIn = internalMutation({
   args: {
-    userId: v.string(),
-    firebaseUid: v.string(),
+    user: v.object(upsertUserArgs),
     expiresAt: v.number(),
-    createdAt: v.number(),
-    lastActiveAt: v.number(),
+    tokenHash: v.optional(v.string()),
+    keySet: v.optional(authKeySetValidator),
+    device: v.optional(deviceValidator),
+    revocationCheck: v.optional(
+      v.object({ authTime: v.number(), keySet: authKeySetValidator }),
+    ),
+    claimRoles: v.optional(v.array(v.string())),
+    identities: v.optional(v.array(identityValidator)),
+    hooks: v.optional(hooksValidator),
+    anonymousUid: v.optional(v.string()),
+    primaryProjectId: v.optional(v.string()),
   },
-  returns: v.string(),
-  handler: async (ctx, args) => {
-    // Clean up any existing expired sessions for this user
-    const existingSessions = await ctx.db
-      .query("sessions")
-      .withIndex("by_firebaseUid", (q) =>
-        q.eq("firebaseUid", args.firebaseUid),
-      )
-      .collect();
+  returns: userReturnValidator,
+  handler: async (ctx, args): Promise<UserReturn> => {
+    if (args.revocationCheck) {
+      const tokensValidAfter = await getTokensValidAfter(
+        ctx,
+        args.user,
+        args.primaryProjectId,
+      );
+      if (
+        tokensValidAfter !== null &&
+        args.revocationCheck.authTime < tokensValidAfter
+      ) {
+        throw new FirebaseAuthError(
+          REVOKED_TOKEN_CODES[args.revocationCheck.keySet],
+          "Token has been revoked",
+        );
+      }
+    }
 
-    const now = Date.now();
-    for (const session of existingSessions) {
-      if (session.expiresAt < now) {
-        await ctx.db.delete(session._id);
+    const existing = await findUser(ctx, args.user, args.primaryProjectId);
+    if (existing?.disabled) {
+      throw new FirebaseAuthError("auth/user-disabled", "User is disabled");
+    }
+
+    const userId = await upsertUser(
+      ctx,
+      args.user,
+      args.hooks,
+      args.primaryProjectId,
+    );
+    if (args.claimRoles) {
+      await mirrorClaimRoles(ctx, userId, args.claimRoles);
+    }
+    if (args.identities) {
+      await syncIdentities(ctx, userId, args.user.tenantId, args.identities);
+    }
+
+    if (existing?.isAnonymous && args.user.isAnonymous === false) {
+      await runHook(ctx, args.hooks?.onAnonymousUpgraded, {
+        firebaseUid: args.user.firebaseUid,
+        tenantId: args.user.tenantId,
+      });
+    }
+    if (args.anonymousUid) {
+      await runHook(ctx, args.hooks?.onAnonymousMerged, {
+        fromUid: args.anonymousUid,
+        toUid: args.user.firebaseUid,
+        tenantId: args.user.tenantId,
+      });
+    }
+
+    // Repeat verifications of a cached token reuse its session
+    const cachedToken = args.tokenHash
+      ? await ctx.db
+          .query("verifiedTokens")
+          .withIndex("by_tokenHash", (q) => q.eq("tokenHash", args.tokenHash!))
+          .unique()
+      : null;
+    if (cachedToken?.revoked) {
+      throw new FirebaseAuthError(
+        REVOKED_TOKEN_CODES[args.keySet ?? "idToken"],
+        "Session has been revoked",
+      );
+    }
+    if (!cachedToken || !(await ctx.db.get(cachedToken.sessionId))) {
+      if (cachedToken) {
+        await ctx.db.delete(cachedToken._id);
+      }
+      const now = Date.now();
+      const sessionId = await createSession(
+        ctx,
+        {
+          userId,
+          firebaseUid: args.user.firebaseUid,
+          tenantId: args.user.tenantId,
+          expiresAt: args.expiresAt,
+          createdAt: now,
+          lastActiveAt: now,
+          ...args.device,
+          providerId: args.user.providerId,
+        },
+        args.hooks,
+      );
+      if (args.tokenHash) {
+        await ctx.db.insert("verifiedTokens", {
+          tokenHash: args.tokenHash,
+          firebaseUid: args.user.firebaseUid,
+          sessionId,
+          expiresAt: args.expiresAt,
+        });
       }
     }
 
-    const sessionId = await ctx.db.insert("sessions", {
-      userId: args.userId as Id<"users">,
-      firebaseUid: args.firebaseUid,
-      expiresAt: args.expiresAt,
-      createdAt: args.createdAt,
-      lastActiveAt: args.lastActiveAt,
-    });
-    return sessionId as unknown as string;
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+    return { ...user, _id: user._id as unknown as string };
   },
 });
 
+async function upsertUser(
+  ctx: MutationCtx,
+  args: ObjectType<typeof upsertUserArgs>,
+  hooks?: Hooks,
+  primaryProjectId?: string,
+): Promise<Id<"users">> {
+  const existing = await findUser(ctx, args, primaryProjectId);
+
+  if (existing) {
+    // Sign-ins only add information, so missing fields are left alone
+    const updates: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(args)) {
+      if (value !== undefined) updates[field] = value;
+    }
+    await patchUser(ctx, existing, updates, hooks);
+    return existing._id;
+  }
+
+  const userId = await ctx.db.insert("users", {
+    firebaseUid: args.firebaseUid,
+    tenantId: args.tenantId,
+    projectId: args.projectId,
+    email: args.email,
+    emailVerified: args.emailVerified,
+    displayName: args.displayName,
+    photoURL: args.photoURL,
+    phoneNumber: args.phoneNumber,
+    providerId: args.providerId,
+    isAnonymous: args.isAnonymous,
+    lastSignInTime: args.lastSignInTime,
+    customClaims: args.customClaims,
+  });
+  await runUserCreatedHook(ctx, userId, hooks);
+  return userId;
+}
+
+async function createSession(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    firebaseUid: string;
+    tenantId?: string;
+    expiresAt: number;
+    createdAt: number;
+    lastActiveAt: number;
+    userAgent?: string;
+    ipAddress?: string;
+    deviceLabel?: string;
+    providerId?: string;
+  },
+  hooks?: Hooks,
+): Promise<Id<"sessions">> {
+  // Clean up any existing expired sessions for this user
+  const existingSessions = await ctx.db
+    .query("sessions")
+    .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+    .collect();
+
+  const now = Date.now();
+  for (const session of existingSessions) {
+    if (session.expiresAt < now) {
+      await ctx.db.delete(session._id);
+    }
+  }
+  const existingTokens = await ctx.db
+    .query("verifiedTokens")
+    .withIndex("by_firebaseUid", (q) => q.eq("firebaseUid", args.firebaseUid))
+    .collect();
+  for (const token of existingTokens) {
+    if (token.expiresAt < now) {
+      await ctx.db.delete(token._id);
+    }
+  }
+
+  const sessionId = await ctx.db.insert("sessions", {
+    userId: args.userId,
+    firebaseUid: args.firebaseUid,
+    tenantId: args.tenantId,
+    expiresAt: args.expiresAt,
+    createdAt: args.createdAt,
+    lastActiveAt: args.lastActiveAt,
+    userAgent: args.userAgent,
+    ipAddress: args.ipAddress,
+    deviceLabel: args.deviceLabel,
+    providerId: args.providerId,
+  });
+  if (hooks?.onSignIn) {
+    const user = (await ctx.db.get(args.userId))!;
+    await runHook(ctx, hooks.onSignIn, {
+      user: { ...user, _id: user._id as unknown as string },
+      sessionId: sessionId as unknown as string,
+    });
+  }
+  return sessionId;
+}
+
+/**
+ * Schedules a host-app hook, so it only runs if the calling mutation commits.
+ * Does nothing for hooks the app didn't pass.
+ */
+async function runHook(
+  ctx: MutationCtx,
+  hook: string | undefined,
+  args: Record<string, unknown>,
+) {
+  if (!hook) return;
+  await ctx.scheduler.runAfter(0, hook as FunctionHandle<"mutation">, args);
+}
+
+async function runUserCreatedHook(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  hooks: Hooks | undefined,
+) {
+  if (!hooks?.onUserCreated) return;
+  const user = (await ctx.db.get(userId))!;
+  await runHook(ctx, hooks.onUserCreated, {
+    user: { ...user, _id: user._id as unknown as string },
+  });
+}
+
+/**
+ * Writes the fields of `updates` that differ from `user`, and reports them
+ * to `onUserUpdated` as `{ before, after }` pairs. Removed fields are null.
+ */
+async function patchUser(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  updates: Record<string, unknown>,
+  hooks: Hooks | undefined,
+) {
+  const changed: Record<string, unknown> = {};
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  for (const [field, after] of Object.entries(updates)) {
+    const before = user[field as keyof typeof user];
+    if (before !== after) {
+      changed[field] = after;
+      changes[field] = { before: before ?? null, after: after ?? null };
+    }
+  }
+  if (Object.keys(changed).length === 0) return;
+  await ctx.db.patch(user._id, changed);
+  if (hooks?.onUserUpdated) {
+    const updated = (await ctx.db.get(user._id))!;
+    await runHook(ctx, hooks.onUserUpdated, {
+      user: { ...updated, _id: updated._id as unknown as string },
+      changes,
+    });
+  }
+}
+
 export const _getCachedPublicKeys = internalQuery({
-  args: {},
+  args: { keySet: v.optional(publicKeySetValidator) },
   returns: v.union(
     v.null(),
     v.object({
@@ -543,8 +2371,14 @@ export const _getCachedPublicKeys = internalQuery({
       expiresAt: v.number(),
     }),
   ),
-  handler: async (ctx) => {
-    const cached = await ctx.db.query("publicKeyCache").order("desc").first();
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("publicKeyCache")
+      .withIndex("by_keySet", (q) =>
+        q.eq("keySet", args.keySet ?? "idToken"),
+      )
+      .order("desc")
+      .first();
     if (!cached) return null;
     return {
       keys: cached.keys,
@@ -556,50 +2390,338 @@ export const _getCachedPublicKeys = internalQuery({
 
 export const _setCachedPublicKeys = internalMutation({
   args: {
+    keySet: v.optional(publicKeySetValidator),
     keys: v.string(),
     fetchedAt: v.number(),
     expiresAt: v.number(),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    // Delete old entries
-    const existing = await ctx.db.query("publicKeyCache").collect();
-    for (const entry of existing) {
+    const keySet = args.keySet ?? "idToken";
+    // Delete old entries, including ones cached before key sets were tracked
+    const existing = await ctx.db
+      .query("publicKeyCache")
+      .withIndex("by_keySet", (q) => q.eq("keySet", keySet))
+      .collect();
+    const untracked = await ctx.db
+      .query("publicKeyCache")
+      .withIndex("by_keySet", (q) => q.eq("keySet", undefined))
+      .collect();
+    for (const entry of [...existing, ...untracked]) {
       await ctx.db.delete(entry._id);
     }
     await ctx.db.insert("publicKeyCache", {
+      keySet,
       keys: args.keys,
       fetchedAt: args.fetchedAt,
       expiresAt: args.expiresAt,
     });
+
+    const status = await getKeyFetchStatus(ctx, keySet);
+    const update = {
+      fetchingUntil: undefined,
+      lastSuccessAt: args.fetchedAt,
+      lastError: undefined,
+      consecutiveFailures: 0,
+    };
+    if (status) {
+      await ctx.db.patch(status._id, update);
+    } else {
+      await ctx.db.insert("keyFetchStatus", { keySet, ...update });
+    }
     return null;
   },
 });
 
-export const _getUserById = internalQuery({
-  args: { userId: v.string() },
+/**
+ * Claims the right to refetch a key set. Returns false while another
+ * verification holds the claim, so concurrent verifications fetch once, and
+ * while backing off after a failed fetch.
+ */
+export const _claimKeyFetch = internalMutation({
+  args: { keySet: publicKeySetValidator },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const status = await getKeyFetchStatus(ctx, args.keySet);
+    if (status?.fetchingUntil !== undefined && status.fetchingUntil > now) {
+      return false;
+    }
+    const fetchingUntil = now + KEY_FETCH_LOCK_MS;
+    if (status) {
+      await ctx.db.patch(status._id, { fetchingUntil });
+    } else {
+      await ctx.db.insert("keyFetchStatus", {
+        keySet: args.keySet,
+        fetchingUntil,
+        consecutiveFailures: 0,
+      });
+    }
+    return true;
+  },
+});
+
+export const _recordKeyFetchFailure = internalMutation({
+  args: { keySet: publicKeySetValidator, error: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const status = await getKeyFetchStatus(ctx, args.keySet);
+    const now = Date.now();
+    const consecutiveFailures = (status?.consecutiveFailures ?? 0) + 1;
+    const update = {
+      // Holds the claim through the back-off, so no one refetches meanwhile
+      fetchingUntil:
+        now +
+        Math.min(
+          UNKNOWN_KID_REFETCH_INTERVAL_MS * 2 ** (consecutiveFailures - 1),
+          KEY_FETCH_MAX_BACKOFF_MS,
+        ),
+      lastFailureAt: now,
+      lastError: args.error,
+      consecutiveFailures,
+    };
+    if (status) {
+      await ctx.db.patch(status._id, update);
+    } else {
+      await ctx.db.insert("keyFetchStatus", { keySet: args.keySet, ...update });
+    }
+    return null;
+  },
+});
+
+async function getKeyFetchStatus(ctx: QueryCtx, keySet: PublicKeySet) {
+  return await ctx.db
+    .query("keyFetchStatus")
+    .withIndex("by_keySet", (q) => q.eq("keySet", keySet))
+    .unique();
+}
+
+export const _getVerifiedToken = internalQuery({
+  args: { tokenHash: v.string() },
+  returns: v.union(
+    v.null(),
+    v.object({
+      firebaseUid: v.string(),
+      expiresAt: v.number(),
+      revoked: v.optional(v.boolean()),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("verifiedTokens")
+      .withIndex("by_tokenHash", (q) => q.eq("tokenHash", args.tokenHash))
+      .unique();
+    if (!cached || cached.expiresAt < Date.now()) return null;
+    return {
+      firebaseUid: cached.firebaseUid,
+      expiresAt: cached.expiresAt,
+      revoked: cached.revoked,
+    };
+  },
+});
+
+// Fields of a stored user that mirror the user's Firebase account
+const syncedUserArgs = {
+  ...userKeyArgs,
+  email: v.optional(v.string()),
+  emailVerified: v.optional(v.boolean()),
+  displayName: v.optional(v.string()),
+  photoURL: v.optional(v.string()),
+  phoneNumber: v.optional(v.string()),
+  disabled: v.optional(v.boolean()),
+  customClaims: v.optional(v.string()),
+  lastSignInTime: v.optional(v.number()),
+};
+
+/**
+ * Stores a user as read from Firebase. Unlike sign-ins, which only add
+ * information, fields missing from the Firebase account are cleared, except
+ * `disabled`: Firebase leaves it out unless true, and users disabled with
+ * `disableUser` must stay disabled. A user newly disabled in Firebase has
+ * their sessions and tokens revoked, as with `disableUser`.
+ */
+export const _syncUser = internalMutation({
+  args: { ...syncedUserArgs, hooks: v.optional(hooksValidator) },
   returns: userReturnValidator,
-  handler: async (ctx, args): Promise<UserReturn> => {
-    const doc = await ctx.db.get(args.userId as Id<"users">);
-    if (!doc) return null;
-    return { ...doc, _id: doc._id as unknown as string };
+  handler: async (ctx, { hooks, ...args }): Promise<UserReturn> => {
+    const existing = await findUser(ctx, args);
+    if (!existing) {
+      const userId = await ctx.db.insert("users", args);
+      await runUserCreatedHook(ctx, userId, hooks);
+      const user = (await ctx.db.get(userId))!;
+      return { ...user, _id: user._id as unknown as string };
+    }
+
+    const updates: Record<string, unknown> = {};
+    for (const field of Object.keys(syncedUserArgs)) {
+      updates[field] = args[field as keyof typeof args];
+    }
+    updates.disabled = args.disabled ?? existing.disabled;
+    await patchUser(ctx, existing, updates, hooks);
+    if (args.disabled && !existing.disabled) {
+      await revokeTokens(ctx, args);
+    }
+    const user = (await ctx.db.get(existing._id))!;
+    return { ...user, _id: user._id as unknown as string };
   },
 });
 
-export const _cleanupExpiredSessions = internalMutation({
+export const _getServiceAccountToken = internalQuery({
+  args: { serviceAccountEmail: v.string() },
+  returns: v.union(v.null(), v.string()),
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("serviceAccountTokens")
+      .withIndex("by_serviceAccountEmail", (q) =>
+        q.eq("serviceAccountEmail", args.serviceAccountEmail),
+      )
+      .unique();
+    if (
+      !cached ||
+      cached.expiresAt - ACCESS_TOKEN_REFRESH_WINDOW_MS < Date.now()
+    ) {
+      return null;
+    }
+    return cached.accessToken;
+  },
+});
+
+export const _setServiceAccountToken = internalMutation({
+  args: {
+    serviceAccountEmail: v.string(),
+    accessToken: v.string(),
+    expiresAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("serviceAccountTokens")
+      .withIndex("by_serviceAccountEmail", (q) =>
+        q.eq("serviceAccountEmail", args.serviceAccountEmail),
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+    } else {
+      await ctx.db.insert("serviceAccountTokens", args);
+    }
+    return null;
+  },
+});
+
+export const _getTokensValidAfter = internalQuery({
+  args: userKeyArgs,
+  returns: v.union(v.null(), v.number()),
+  handler: async (ctx, args) => {
+    return await getTokensValidAfter(ctx, args);
+  },
+});
+
+// The latest revocation watermark of a user, including one left behind by
+// deleting the user.
+async function getTokensValidAfter(
+  ctx: QueryCtx,
+  key: UserKey,
+  primaryProjectId?: string,
+): Promise<number | null> {
+  const user = await findUser(ctx, key, primaryProjectId);
+  const deleted = await ctx.db
+    .query("deletedUsers")
+    .withIndex("by_tenantId_and_firebaseUid", (q) =>
+      q.eq("tenantId", key.tenantId).eq("firebaseUid", key.firebaseUid),
+    )
+    .collect();
+  const watermarks = [
+    user?.tokensValidAfter,
+    ...deleted
+      .filter(
+        (d) =>
+          d.projectId === undefined ||
+          key.projectId === undefined ||
+          d.projectId === key.projectId,
+      )
+      .map((d) => d.tokensValidAfter),
+  ].filter((t): t is number => t !== undefined);
+  return watermarks.length > 0 ? Math.max(...watermarks) : null;
+}
+
+/**
+ * Refreshes cached public key sets that expire within the next
+ * `KEY_REFRESH_WINDOW_MS`, so verifications never wait on a Google fetch.
+ * Key sets that were never fetched are left alone. Run by the component's
+ * cron jobs.
+ */
+export const _refreshPublicKeys = internalAction({
   args: {},
   returns: v.number(),
   handler: async (ctx) => {
+    let refreshed = 0;
+    let firstError: unknown = null;
+    for (const keySet of Object.keys(PUBLIC_KEY_URLS) as PublicKeySet[]) {
+      const cachedKeys = await ctx.runQuery(internal.lib._getCachedPublicKeys, {
+        keySet,
+      });
+      if (
+        !cachedKeys ||
+        cachedKeys.expiresAt - Date.now() > KEY_REFRESH_WINDOW_MS
+      ) {
+        continue;
+      }
+      // A failing key set must not keep the other one from refreshing
+      try {
+        const refreshedKeys = await refreshPublicKeys(ctx, keySet, cachedKeys);
+        if (refreshedKeys.fetchedAt !== cachedKeys.fetchedAt) refreshed++;
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    if (firstError) throw firstError;
+    return refreshed;
+  },
+});
+
+/**
+ * Deletes up to `batchSize` expired sessions, verified-token cache entries
+ * and deleted users' watermarks, and schedules another batch while expired
+ * rows remain. Run by the component's cron jobs.
+ */
+export const _cleanupExpiredSessions = internalMutation({
+  args: { batchSize: v.optional(v.number()) },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? CLEANUP_BATCH_SIZE;
     const now = Date.now();
-    const expired = await ctx.db
+    const expiredSessions = await ctx.db
       .query("sessions")
-      .withIndex("by_expiresAt")
-      .filter((q) => q.lt(q.field("expiresAt"), now))
-      .collect();
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", now))
+      .take(batchSize);
+    const expiredTokens = await ctx.db
+      .query("verifiedTokens")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", now))
+      .take(batchSize);
+    const expiredWatermarks = await ctx.db
+      .query("deletedUsers")
+      .withIndex("by_tokensValidAfter", (q) =>
+        q.lt("tokensValidAfter", now - DELETED_USER_RETENTION_MS),
+      )
+      .take(batchSize);
 
-    for (const session of expired) {
-      await ctx.db.delete(session._id);
+    for (const row of [
+      ...expiredSessions,
+      ...expiredTokens,
+      ...expiredWatermarks,
+    ]) {
+      await ctx.db.delete(row._id);
+    }
+    if (
+      expiredSessions.length === batchSize ||
+      expiredTokens.length === batchSize ||
+      expiredWatermarks.length === batchSize
+    ) {
+      await ctx.scheduler.runAfter(0, internal.lib._cleanupExpiredSessions, {
+        batchSize: args.batchSize,
+      });
     }
-    return expired.length;
+    return expiredSessions.length;
   },
 });
@@ -4,6 +4,8 @@ import { v } from "convex/values";
 export default defineSchema({
   users: defineTable({
     firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
+    projectId: v.optional(v.string()),
     email: v.optional(v.string()),
     emailVerified: v.optional(v.boolean()),
     displayName: v.optional(v.string()),
@@ -14,24 +16,115 @@ export default defineSchema({
     disabled: v.optional(v.boolean()),
     lastSignInTime: v.optional(v.number()),
     customClaims: v.optional(v.string()),
+    tokensValidAfter: v.optional(v.number()),
   })
-    .index("by_firebaseUid", ["firebaseUid"])
-    .index("by_email", ["email"]),
+    .index("by_tenantId_and_firebaseUid", ["tenantId", "firebaseUid"])
+    .index("by_tenantId_and_lastSignInTime", ["tenantId", "lastSignInTime"])
+    .index("by_tenantId_and_email", ["tenantId", "email"])
+    .index("by_tenantId_and_phoneNumber", ["tenantId", "phoneNumber"])
+    .searchIndex("search_displayName", {
+      searchField: "displayName",
+      filterFields: ["tenantId"],
+    })
+    .searchIndex("search_email", {
+      searchField: "email",
+      filterFields: ["tenantId"],
+    }),
 
   sessions: defineTable({
     userId: v.id("users"),
     firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
     expiresAt: v.number(),
     createdAt: v.number(),
     lastActiveAt: v.number(),
+    // Where the session was opened, as reported by the host app
+    userAgent: v.optional(v.string()),
+    ipAddress: v.optional(v.string()),
+    deviceLabel: v.optional(v.string()),
+    providerId: v.optional(v.string()),
   })
-    .index("by_firebaseUid", ["firebaseUid"])
+    .index("by_tenantId_and_firebaseUid", ["tenantId", "firebaseUid"])
     .index("by_userId", ["userId"])
     .index("by_expiresAt", ["expiresAt"]),
 
+  verifiedTokens: defineTable({
+    tokenHash: v.string(),
+    firebaseUid: v.string(),
+    sessionId: v.id("sessions"),
+    expiresAt: v.number(),
+    // Set when the session was revoked; the token can't open a new one
+    revoked: v.optional(v.boolean()),
+  })
+    .index("by_tokenHash", ["tokenHash"])
+    .index("by_firebaseUid", ["firebaseUid"])
+    .index("by_sessionId", ["sessionId"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  roles: defineTable({
+    name: v.string(),
+    permissions: v.array(v.string()),
+    description: v.optional(v.string()),
+  }).index("by_name", ["name"]),
+
+  userRoles: defineTable({
+    userId: v.id("users"),
+    role: v.string(),
+    // Granted explicitly, or mirrored from the user's roles claim
+    source: v.union(v.literal("grant"), v.literal("claim")),
+  })
+    .index("by_userId_and_role", ["userId", "role"])
+    .index("by_role", ["role"]),
+
+  identities: defineTable({
+    userId: v.id("users"),
+    tenantId: v.optional(v.string()),
+    // Keys of the token's firebase.identities map, e.g. "google.com" or "email"
+    providerId: v.string(),
+    // The user's identifier with that provider, e.g. a Google subject ID
+    providerUid: v.string(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_providerId_and_providerUid", ["providerId", "providerUid"]),
+
+  deletedUsers: defineTable({
+    firebaseUid: v.string(),
+    tenantId: v.optional(v.string()),
+    projectId: v.optional(v.string()),
+    tokensValidAfter: v.number(),
+  })
+    .index("by_tenantId_and_firebaseUid", ["tenantId", "firebaseUid"])
+    .index("by_tokensValidAfter", ["tokensValidAfter"]),
+
   publicKeyCache: defineTable({
+    keySet: v.optional(
+      v.union(
+        v.literal("idToken"),
+        v.literal("sessionCookie"),
+        v.literal("appCheck"),
+      ),
+    ),
     keys: v.string(),
     fetchedAt: v.number(),
     expiresAt: v.number(),
-  }),
+  }).index("by_keySet", ["keySet"]),
+
+  keyFetchStatus: defineTable({
+    keySet: v.union(
+      v.literal("idToken"),
+      v.literal("sessionCookie"),
+      v.literal("appCheck"),
+    ),
+    fetchingUntil: v.optional(v.number()),
+    lastSuccessAt: v.optional(v.number()),
+    lastFailureAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    consecutiveFailures: v.number(),
+  }).index("by_keySet", ["keySet"]),
+
+  serviceAccountTokens: defineTable({
+    serviceAccountEmail: v.string(),
+    accessToken: v.string(),
+    expiresAt: v.number(),
+  }).index("by_serviceAccountEmail", ["serviceAccountEmail"]),
 });
@@ -6,12 +6,15 @@ import {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
 import type { ReactNode } from "react";
 import { useAction, useQuery } from "convex/react";
 import type { FunctionReference } from "convex/server";
+import { getErrorCode, getErrorMessage } from "../component/errors.js";
+import type { FirebaseAuthErrorCode } from "../component/errors.js";
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
@@ -19,6 +22,8 @@ interface ConvexFirebaseUser {
   _id: string;
   _creationTime: number;
   firebaseUid: string;
+  tenantId?: string;
+  projectId?: string;
   email?: string;
   emailVerified?: boolean;
   displayName?: string;
@@ -28,7 +33,13 @@ interface ConvexFirebaseUser {
   isAnonymous?: boolean;
   disabled?: boolean;
   lastSignInTime?: number;
-  customClaims?: string;
+  customClaims: Record<string, unknown>;
+  tokensValidAfter?: number;
+}
+
+interface FirebaseAuthStateError extends Error {
+  /** Stable error code, e.g. `auth/id-token-expired`. */
+  code: FirebaseAuthErrorCode;
 }
 
 interface FirebaseAuthState {
@@ -36,7 +47,7 @@ interface FirebaseAuthState {
   isAuthenticated: boolean;
   user: ConvexFirebaseUser | null;
   firebaseUid: string | null;
-  error: Error | null;
+  error: FirebaseAuthStateError | null;
 }
 
 interface FirebaseAuthContextValue extends FirebaseAuthState {
@@ -46,6 +57,7 @@ interface FirebaseAuthContextValue extends FirebaseAuthState {
 // Firebase Auth types (minimal subset to avoid requiring firebase dependency)
 interface FirebaseUser {
   uid: string;
+  isAnonymous: boolean;
   getIdToken(forceRefresh?: boolean): Promise<string>;
 }
 
@@ -56,6 +68,13 @@ interface FirebaseAuth {
   currentUser: FirebaseUser | null;
 }
 
+// Carries the code of errors thrown by the component over to `state.error`.
+function toStateError(err: unknown): FirebaseAuthStateError {
+  const code = (getErrorCode(err) ??
+    "auth/internal-error") as FirebaseAuthErrorCode;
+  return Object.assign(new Error(getErrorMessage(err)), { code });
+}
+
 // ─── Context ───────────────────────────────────────────────────────────────
 
 const FirebaseAuthContext = createContext<FirebaseAuthContextValue | null>(null);
@@ -65,11 +84,15 @@ const FirebaseAuthContext = createContext<FirebaseAuthContextValue | null>(null)
 interface FirebaseAuthProviderProps {
   children: ReactNode;
   auth: FirebaseAuth;
-  verifyToken: FunctionReference<"action", "public", { idToken: string }>;
+  verifyToken: FunctionReference<
+    "action",
+    "public",
+    { idToken: string; anonymousIdToken?: string }
+  >;
   getUser: FunctionReference<
     "query",
     "public",
-    { firebaseUid: string },
+    { firebaseUid?: string },
     ConvexFirebaseUser | null
   >;
 }
@@ -98,12 +121,27 @@ export function FirebaseAuthProvider({
   // Keep track of last verified UID to avoid double-verification
   const lastVerifiedUid = useRef<string | null>(null);
   const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The anonymous user's last token, sent along when they sign in to an
+  // existing account so the component can run `onAnonymousMerged`
+  const anonymousToken = useRef<{ uid: string; idToken: string } | null>(null);
 
   const doVerify = useCallback(
     async (user: FirebaseUser) => {
       try {
         const idToken = await user.getIdToken();
-        await verifyTokenAction({ idToken });
+        // Sent at most once, so an expired token can't block later sign-ins
+        const previous = anonymousToken.current;
+        anonymousToken.current = null;
+        await verifyTokenAction({
+          idToken,
+          anonymousIdToken:
+            previous && previous.uid !== user.uid
+              ? previous.idToken
+              : undefined,
+        });
+        anonymousToken.current = user.isAnonymous
+          ? { uid: user.uid, idToken }
+          : null;
         lastVerifiedUid.current = user.uid;
         setState((prev) => ({
           ...prev,
@@ -119,7 +157,7 @@ export function FirebaseAuthProvider({
           isAuthenticated: false,
           user: null,
           firebaseUid: null,
-          error: err instanceof Error ? err : new Error("Verification failed"),
+          error: toStateError(err),
         }));
       }
     },
@@ -150,6 +188,7 @@ export function FirebaseAuthProvider({
       } else {
         // User signed out
         lastVerifiedUid.current = null;
+        anonymousToken.current = null;
         if (refreshTimerRef.current) {
           clearInterval(refreshTimerRef.current);
           refreshTimerRef.current = null;
@@ -203,6 +242,36 @@ export function FirebaseAuthProvider({
 
 // ─── Hooks ─────────────────────────────────────────────────────────────────
 
+/**
+ * Adapts Firebase Auth to `ConvexProviderWithAuth`, so Convex functions see
+ * the Firebase user through `ctx.auth.getUserIdentity()`.
+ */
+export function useAuthFromFirebase(auth: FirebaseAuth) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+
+  useEffect(() => {
+    return auth.onAuthStateChanged((firebaseUser) => {
+      setIsAuthenticated(firebaseUser !== null);
+      setIsLoading(false);
+    });
+  }, [auth]);
+
+  const fetchAccessToken = useCallback(
+    async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+      const currentUser = auth.currentUser;
+      if (!currentUser) return null;
+      return await currentUser.getIdToken(forceRefreshToken);
+    },
+    [auth],
+  );
+
+  return useMemo(
+    () => ({ isLoading, isAuthenticated, fetchAccessToken }),
+    [isLoading, isAuthenticated, fetchAccessToken],
+  );
+}
+
 export function useFirebaseAuth(): FirebaseAuthContextValue {
   const context = useContext(FirebaseAuthContext);
   if (!context) {
@@ -235,4 +304,10 @@ export function useIsAuthenticated(): boolean {
 }
 
 // Re-export types
-export type { ConvexFirebaseUser, FirebaseAuthState, FirebaseAuthProviderProps };
+export type {
+  ConvexFirebaseUser,
+  FirebaseAuthState,
+  FirebaseAuthStateError,
+  FirebaseAuthProviderProps,
+};
+export type { FirebaseAuthErrorCode } from "../component/errors.js";